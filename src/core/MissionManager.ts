@@ -1,14 +1,164 @@
-import { MissionStore } from "../persistence/MissionStore";
+import { MissionStore, MissionSummary, BlockerCountMismatch, TaskSearchHit, TransactionMode, TASK_SORT_KEYS } from "../persistence/MissionStore";
 import { generateSmartId } from "../utils/id";
-import { Mission, Task, Dependency, TaskStatus, CreateTaskInput } from "../types";
-import { CreateTaskInputSchema } from "../types/schemas";
-import { MissionNotFoundError, TaskNotFoundError, InvalidOperationError, TaskLockedError, CycleDetectedError } from "../types/errors";
+import { Mission, Task, Dependency, TaskStatus, CreateTaskInput, TaskEvent, TaskEventType, ReadyTaskFilters, EditTaskInput, Agent, SubmitPlanInput, TaskQuery, SearchTasksInput, ExportedTask, MissionExport, ImportMode } from "../types";
+import { CreateTaskInputSchema, ReadyTaskFiltersSchema, EditTaskInputSchema, RegisterAgentInputSchema, RenameMissionInputSchema, SubmitPlanInputSchema, TaskQuerySchema, SearchTasksInputSchema, MissionExportSchema, ImportModeSchema, MISSION_EXPORT_VERSION, UnlinkTasksInputSchema, DeleteTaskInputSchema, isValidTransition } from "../types/schemas";
+import { renderGraph, GraphOptions } from "./graph";
+import { ImportedTodo, normalizeTitle } from "./importers";
+import { renderPlanMarkdown, parsePlanMarkdown, planFingerprint, planTitle, sortForPlan, PlanFields, PlanItem } from "./markdown";
+import { buildWorkGraph, findCycle, topologicalOrder, executionWaves, criticalPath, CriticalPath, PlanningOptions } from "./planning";
+import { MissionNotFoundError, TaskNotFoundError, InvalidOperationError, TaskLockedError, CycleDetectedError, InvalidTransitionError, TaskOwnershipError, MissingCapabilityError, VersionConflictError } from "../types/errors";
+
+const DEFAULT_LEASE_DURATION_MS = 30 * 60 * 1000;
+
+export interface MissionManagerOptions {
+    /** How long a claim stays valid without a heartbeat. */
+    leaseDurationMs?: number;
+    /** Clock used for leases and event timestamps; injectable for tests. */
+    now?: () => Date;
+}
+
+export interface CreateTaskOptions {
+    /** Failures allowed before the task stays `failed` and blocks its dependents. */
+    maxAttempts?: number;
+    /** Makes the new task a subtask of this one. */
+    parentId?: string;
+    /** Capability tags an agent must have registered to claim the task. */
+    requiredCapabilities?: string[];
+    labels?: string[];
+}
+
+export interface TaskPage {
+    tasks: Task[];
+    /** Pass back as `cursor` to fetch the next page; null on the last page. */
+    next_cursor: string | null;
+}
+
+export interface PlanResult {
+    /** Generated task id for every local key in the plan. */
+    ids: Record<string, string>;
+    tasks: Task[];
+    /** Dependency edges created; repeated and already existing edges are not counted. */
+    links: number;
+}
+
+export interface ImportOptions {
+    /**
+     * `new` copies the mission under fresh ids, `merge` adds what is missing to
+     * the existing mission, `replace` swaps the mission's tasks for the export's.
+     */
+    mode: ImportMode;
+    /** Import into this mission instead of the exported mission's id. */
+    missionId?: string;
+}
+
+export interface ImportConflict {
+    /** Task id as it appears in the export. */
+    task_id: string;
+    reason: string;
+}
+
+export interface ImportResult {
+    mission: Mission;
+    /** Id every exported task now has; differs from the exported id when remapped. */
+    ids: Record<string, string>;
+    created: string[];
+    conflicts: ImportConflict[];
+}
+
+export type PlanChange =
+    | { type: 'create'; line: number; title: string; priority?: number; parent_id: string | null; parent_line: number | null; after: string[]; completed: boolean }
+    | { type: 'edit'; task_id: string; changes: { title?: string; priority?: number } }
+    | { type: 'link' | 'unlink'; blocker_id: string; blocked_id: string }
+    | { type: 'complete'; task_id: string }
+    /** Siblings under `parent_id` (null: top level) in their new order, by line in the file. */
+    | { type: 'reorder'; parent_id: string | null; lines: number[] };
+
+export interface PlanConflict {
+    line: number;
+    task_id: string | null;
+    reason: string;
+}
+
+export interface PlanSyncResult {
+    changes: PlanChange[];
+    /** Edits that were not applied; the mission's version of the task stands. */
+    conflicts: PlanConflict[];
+    applied: boolean;
+    /** Ids of the created tasks, keyed by their line in the file. */
+    created: Record<number, string>;
+}
+
+export interface TodoImportResult {
+    created: Task[];
+    skipped: { title: string; key: string; reason: string }[];
+}
+
+export interface MissionOverview extends Mission {
+    task_count: number;
+    completed_count: number;
+}
+
+export interface AgentStatus extends Agent {
+    /** Seen within the last lease period. */
+    active: boolean;
+    claimed_tasks: string[];
+}
+
+export interface BlockerInfo {
+    id: string;
+    title: string;
+    status: TaskStatus;
+    assignee: string | null;
+    /** The task this blocker directly holds up. */
+    blocks: string;
+    /** Distance from the explained task (1 = direct blocker). */
+    depth: number;
+}
+
+export interface TaskLink {
+    id: string;
+    title: string;
+    status: TaskStatus;
+    assignee: string | null;
+}
+
+export interface TaskDetail {
+    task: Task;
+    parent: TaskLink | null;
+    subtasks: TaskLink[];
+    /** Tasks this one depends on. */
+    blockers: TaskLink[];
+    /** Tasks that depend on this one. */
+    dependents: TaskLink[];
+    /** When the task entered its current status. */
+    status_since: string;
+    time_in_status_ms: number;
+}
+
+export interface BlockedExplanation {
+    task: Task;
+    ready: boolean;
+    /** Reasons unrelated to dependencies (claimed, completed, failed, ...). */
+    reasons: string[];
+    /** Every unfinished task transitively holding this one up. */
+    blockers: BlockerInfo[];
+    /** Blockers with nothing unfinished in front of them: where work can happen now. */
+    frontier: BlockerInfo[];
+}
 
 export class MissionManager {
     private store: MissionStore;
+    private leaseDurationMs: number;
+    private now: () => Date;
 
-    constructor(store: MissionStore) {
+    constructor(store: MissionStore, options: MissionManagerOptions = {}) {
         this.store = store;
+        this.leaseDurationMs = options.leaseDurationMs ?? DEFAULT_LEASE_DURATION_MS;
+        this.now = options.now ?? (() => new Date());
+    }
+
+    private leaseExpiry(): string {
+        return new Date(this.now().getTime() + this.leaseDurationMs).toISOString();
     }
 
     createMission(id: string, title: string): Mission {
@@ -21,13 +171,80 @@ export class MissionManager {
             id,
             title,
             status: 'active',
-            created_at: new Date().toISOString()
+            created_at: this.now().toISOString()
         };
         this.store.createMission(mission);
         return mission;
     }
 
-    createTask(missionId: string, title: string, description: string = '', priority: any = 4, acceptanceCriteria?: string, metadata?: Record<string, unknown>): Task {
+    getMission(missionId: string): Mission {
+        const mission = this.store.getMission(missionId);
+        if (!mission) throw new MissionNotFoundError(missionId);
+        return mission;
+    }
+
+    /**
+     * Lists missions with their task counts, oldest first. Archived missions
+     * are hidden unless asked for.
+     */
+    listMissions(options: { includeArchived?: boolean } = {}): MissionOverview[] {
+        return this.store.getMissions(options.includeArchived ?? false);
+    }
+
+    renameMission(missionId: string, title: string): Mission {
+        const input = RenameMissionInputSchema.parse({ mission_id: missionId, title });
+        this.getMission(input.mission_id);
+        this.store.updateMission(input.mission_id, { title: input.title });
+        return this.getMission(input.mission_id);
+    }
+
+    /**
+     * Shelves a mission: it drops out of `listMissions` and no longer accepts
+     * new tasks. Refused while agents still hold claims on its tasks.
+     */
+    archiveMission(missionId: string): Mission {
+        return this.store.runTransaction(() => {
+            const mission = this.getMission(missionId);
+            if (mission.status === 'archived') return mission;
+
+            const claimed = this.store.getTasksByMission(missionId).filter(t => t.status === 'in_progress' || t.status === 'review');
+            if (claimed.length > 0) {
+                throw new InvalidOperationError(`Mission ${missionId} has tasks in progress: ${claimed.map(t => t.id).join(', ')}`);
+            }
+
+            this.store.updateMission(missionId, { status: 'archived' });
+            return this.getMission(missionId);
+        });
+    }
+
+    /**
+     * Marks a mission completed once every task in it is, and reopens it when
+     * unfinished work appears again. Archived missions are left alone.
+     */
+    private refreshMissionStatus(missionId: string): void {
+        const mission = this.store.getMission(missionId);
+        if (!mission || mission.status === 'archived') return;
+
+        const { total, unfinished } = this.store.countUnfinishedTasks(missionId);
+        const status = total > 0 && unfinished === 0 ? 'completed' : 'active';
+        if (status !== mission.status) {
+            this.store.updateMission(missionId, { status });
+        }
+    }
+
+    private recordEvent(task: Task, eventType: TaskEventType, actor: string | null, oldValue: unknown, newValue: unknown): void {
+        this.store.addTaskEvent({
+            task_id: task.id,
+            mission_id: task.mission_id,
+            event_type: eventType,
+            actor,
+            old_value: oldValue,
+            new_value: newValue,
+            created_at: this.now().toISOString()
+        });
+    }
+
+    createTask(missionId: string, title: string, description: string = '', priority: any = 4, acceptanceCriteria?: string, metadata?: Record<string, unknown>, actor: string | null = null, options: CreateTaskOptions = {}): Task {
         const input: CreateTaskInput = {
             mission_id: missionId,
             title,
@@ -36,12 +253,30 @@ export class MissionManager {
             acceptance_criteria: acceptanceCriteria,
             assignee: null,
             metadata: metadata || {},
+            max_attempts: options.maxAttempts,
+            parent_id: options.parentId ?? null,
+            required_capabilities: options.requiredCapabilities,
+            labels: options.labels,
         };
         const validatedInput = CreateTaskInputSchema.parse(input);
 
         const mission = this.store.getMission(validatedInput.mission_id);
         if (!mission) throw new MissionNotFoundError(validatedInput.mission_id);
+        if (mission.status === 'archived') {
+            throw new InvalidOperationError(`Mission ${mission.id} is archived`);
+        }
+
+        if (validatedInput.parent_id) {
+            const parent = this.store.getTask(validatedInput.parent_id);
+            if (!parent) throw new TaskNotFoundError(validatedInput.parent_id);
+            if (parent.mission_id !== validatedInput.mission_id) {
+                throw new InvalidOperationError(`Parent task ${parent.id} belongs to mission ${parent.mission_id}`);
+            }
+            const refused = this.subtaskRefusal(parent);
+            if (refused) throw new InvalidOperationError(`Cannot add subtasks to ${refused}`);
+        }
 
+        const createdAt = this.now().toISOString();
         const task: Task = {
             id: generateSmartId(title),
             mission_id: validatedInput.mission_id,
@@ -50,17 +285,631 @@ export class MissionManager {
             status: 'pending',
             priority: validatedInput.priority!,
             assignee: validatedInput.assignee,
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString(),
+            created_at: createdAt,
+            updated_at: createdAt,
             acceptance_criteria: validatedInput.acceptance_criteria,
-            metadata: validatedInput.metadata
+            metadata: validatedInput.metadata,
+            max_attempts: validatedInput.max_attempts ?? 1,
+            attempts: 0,
+            blocked_by: null,
+            parent_id: validatedInput.parent_id ?? null,
+            required_capabilities: validatedInput.required_capabilities ?? [],
+            labels: [...new Set(validatedInput.labels ?? [])],
+            version: 1
         };
 
-        this.store.createTask(task);
+        this.store.runTransaction(() => {
+            this.store.createTask(task);
+            this.recordEvent(task, 'created', actor, null, { title: task.title, status: task.status, priority: task.priority, parent_id: task.parent_id });
+            this.rollupParent(task, actor);
+            this.refreshMissionStatus(task.mission_id);
+        });
         return task;
     }
 
-    linkTasks(blockerId: string, blockedId: string): void {
+    createSubtask(parentId: string, title: string, description: string = '', priority: any = 4, acceptanceCriteria?: string, metadata?: Record<string, unknown>, actor: string | null = null, options: CreateTaskOptions = {}): Task {
+        const parent = this.store.getTask(parentId);
+        if (!parent) throw new TaskNotFoundError(parentId);
+        return this.createTask(parent.mission_id, title, description, priority, acceptanceCriteria, metadata, actor, { ...options, parentId });
+    }
+
+    /**
+     * Why no subtask may be added under `parent`, or null when one may. A new
+     * pending child would roll the parent back to pending, dropping a claim
+     * or the failure it is blocked by.
+     */
+    private subtaskRefusal(parent: Task): string | null {
+        if (parent.status === 'completed') return `completed task ${parent.id}`;
+        if ((parent.status === 'in_progress' || parent.status === 'review') && parent.assignee) {
+            return `task ${parent.id} while ${parent.assignee} holds it`;
+        }
+        if (parent.status === 'blocked' && parent.blocked_by) {
+            return `task ${parent.id} while failed task ${parent.blocked_by} blocks it`;
+        }
+        return null;
+    }
+
+    getChildren(taskId: string): Task[] {
+        const task = this.store.getTask(taskId);
+        if (!task) throw new TaskNotFoundError(taskId);
+        return this.store.getChildren(taskId);
+    }
+
+    /**
+     * Derives a parent's status from its subtasks: completed when all are completed,
+     * failed when any failed, in progress once work started, blocked when a subtask
+     * is blocked, pending otherwise. Recurses up the hierarchy.
+     */
+    private rollupParent(child: Task, actor: string | null): void {
+        if (!child.parent_id) return;
+        const parent = this.store.getTask(child.parent_id);
+        if (!parent) return;
+
+        const statuses = this.store.getChildren(parent.id).map(c => c.status);
+        let rolledUp: TaskStatus = 'pending';
+        if (statuses.length > 0 && statuses.every(st => st === 'completed')) {
+            rolledUp = 'completed';
+        } else if (statuses.includes('failed')) {
+            rolledUp = 'failed';
+        } else if (statuses.some(st => st === 'in_progress' || st === 'review' || st === 'completed')) {
+            rolledUp = 'in_progress';
+        } else if (statuses.includes('blocked')) {
+            rolledUp = 'blocked';
+        }
+
+        if (rolledUp === parent.status) return;
+
+        this.store.updateTaskStatus(parent.id, rolledUp, null);
+        this.recordEvent(parent, 'status_changed', actor,
+            { status: parent.status, assignee: parent.assignee },
+            { status: rolledUp, assignee: null, rollup: true });
+
+        if (rolledUp === 'failed') {
+            this.blockTasks(this.store.getDownstreamTaskIds(parent.id), parent.id, actor);
+        } else if (parent.status === 'failed') {
+            this.unblockDownstream(parent.id, actor);
+        }
+
+        this.rollupParent(parent, actor);
+    }
+
+    private assertNotParent(taskId: string): void {
+        if (this.store.getChildren(taskId).length > 0) {
+            throw new InvalidOperationError(`Task ${taskId} has subtasks; its status is derived from them`);
+        }
+    }
+
+    /**
+     * Creates a whole plan at once. References are resolved, and the plan plus
+     * the mission's existing dependencies are checked for cycles, before any
+     * row is written; everything is inserted in one transaction.
+     */
+    submitPlan(missionId: string, plan: SubmitPlanInput, actor: string | null = null): PlanResult {
+        const input = SubmitPlanInputSchema.parse(plan);
+        return this.store.runTransaction(() => {
+            this.getMission(missionId);
+            const existing = new Set(this.store.getTasksByMission(missionId).map(t => t.id));
+            const planned = new Map(input.tasks.map(t => [t.key, t]));
+            const check = (ref: string) => {
+                if (!planned.has(ref) && !existing.has(ref)) {
+                    throw new InvalidOperationError(`Plan refers to unknown task '${ref}'`);
+                }
+            };
+            input.tasks.forEach(t => t.parent && check(t.parent));
+
+            const edges: { blocker: string; blocked: string }[] = [];
+            const seen = new Set<string>();
+            for (const e of input.edges ?? []) {
+                check(e.blocker);
+                check(e.blocked);
+                if (seen.has(`${e.blocker}->${e.blocked}`)) continue;
+                seen.add(`${e.blocker}->${e.blocked}`);
+                edges.push(e);
+            }
+
+            const dependencies = this.store.getDependenciesByMission(missionId);
+            const cycle = findCycle([
+                ...dependencies.map(d => [d.blocker_id, d.blocked_id] as [string, string]),
+                ...edges.map(e => [e.blocker, e.blocked] as [string, string])
+            ]);
+            if (cycle) throw new CycleDetectedError(`Cycle detected in plan: ${cycle.join(' -> ')}`);
+
+            const parentCycle = findCycle(input.tasks.filter(t => t.parent).map(t => [t.key, t.parent!] as [string, string]));
+            if (parentCycle) throw new CycleDetectedError(`Cycle detected in plan hierarchy: ${parentCycle.join(' -> ')}`);
+
+            const ids: Record<string, string> = {};
+            const idOf = (ref: string) => planned.has(ref) ? ids[ref] : ref;
+            const create = (key: string) => {
+                if (ids[key]) return;
+                const t = planned.get(key)!;
+                if (t.parent && planned.has(t.parent)) create(t.parent);
+                ids[key] = this.createTask(missionId, t.title, t.description, t.priority, t.acceptance_criteria, t.metadata, actor, {
+                    maxAttempts: t.max_attempts,
+                    parentId: t.parent ? idOf(t.parent) : undefined,
+                    requiredCapabilities: t.required_capabilities,
+                    labels: t.labels
+                }).id;
+            };
+            input.tasks.forEach(t => create(t.key));
+
+            const linked = new Set(dependencies.map(d => `${d.blocker_id}->${d.blocked_id}`));
+            let links = 0;
+            for (const e of edges) {
+                const [blockerId, blockedId] = [idOf(e.blocker), idOf(e.blocked)];
+                if (linked.has(`${blockerId}->${blockedId}`)) continue;
+                this.linkTasks(blockerId, blockedId, actor);
+                links++;
+            }
+
+            return { ids, tasks: input.tasks.map(t => this.store.getTask(ids[t.key])!), links };
+        });
+    }
+
+    private toExportedTask(task: Task): ExportedTask {
+        return {
+            id: task.id,
+            title: task.title,
+            description: task.description,
+            status: task.status,
+            priority: task.priority,
+            assignee: task.assignee,
+            acceptance_criteria: task.acceptance_criteria ?? null,
+            metadata: task.metadata,
+            max_attempts: task.max_attempts ?? 1,
+            attempts: task.attempts ?? 0,
+            blocked_by: task.blocked_by ?? null,
+            parent_id: task.parent_id ?? null,
+            required_capabilities: task.required_capabilities ?? [],
+            labels: task.labels ?? [],
+            created_at: task.created_at,
+            updated_at: task.updated_at
+        };
+    }
+
+    /**
+     * Snapshot of a mission as a versioned JSON document. Tasks and edges are
+     * sorted so exporting the same mission twice yields the same document.
+     */
+    exportMission(missionId: string): MissionExport {
+        const mission = this.getMission(missionId);
+        const tasks = this.store.getTasksByMission(missionId)
+            .sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id));
+        const dependencies = this.store.getDependenciesByMission(missionId)
+            .map(d => ({ blocker_id: d.blocker_id, blocked_id: d.blocked_id }))
+            .sort((a, b) => a.blocker_id.localeCompare(b.blocker_id) || a.blocked_id.localeCompare(b.blocked_id));
+
+        return MissionExportSchema.parse({
+            format: 'mission-control',
+            version: MISSION_EXPORT_VERSION,
+            exported_at: this.now().toISOString(),
+            mission,
+            tasks: tasks.map(t => this.toExportedTask(t)),
+            dependencies
+        });
+    }
+
+    /**
+     * Re-creates an exported mission in one transaction. Task ids are kept
+     * unless they are taken (or the mode is `new`), in which case fresh ids are
+     * generated and every reference is remapped. Local tasks that differ from
+     * the export, edges that would close a cycle and edges between a task and
+     * its own ancestor or descendant are kept out and reported as conflicts;
+     * imported claims get a fresh lease.
+     */
+    importMission(document: unknown, options: ImportOptions, actor: string | null = null): ImportResult {
+        const doc = MissionExportSchema.parse(document);
+        const mode = ImportModeSchema.parse(options.mode);
+
+        const hierarchyCycle = findCycle(doc.tasks.filter(t => t.parent_id).map(t => [t.id, t.parent_id!] as [string, string]));
+        if (hierarchyCycle) throw new CycleDetectedError(`Cycle detected in export hierarchy: ${hierarchyCycle.join(' -> ')}`);
+        const cycle = findCycle(doc.dependencies.map(d => [d.blocker_id, d.blocked_id] as [string, string]));
+        if (cycle) throw new CycleDetectedError(`Cycle detected in export: ${cycle.join(' -> ')}`);
+
+        return this.store.runTransaction(() => {
+            let missionId = options.missionId ?? doc.mission.id;
+            const existing = this.store.getMission(missionId);
+            if (mode === 'new' && existing) {
+                if (options.missionId) throw new InvalidOperationError(`Mission ${missionId} already exists`);
+                missionId = generateSmartId(doc.mission.title);
+            }
+            if (mode === 'merge' && existing?.status === 'archived') {
+                throw new InvalidOperationError(`Mission ${missionId} is archived`);
+            }
+
+            if (mode === 'replace' && existing) {
+                const local = this.store.getTasksByMission(missionId);
+                const claimed = local.filter(t => t.assignee && (t.status === 'in_progress' || t.status === 'review'));
+                if (claimed.length > 0) {
+                    throw new InvalidOperationError(`Mission ${missionId} has tasks in progress: ${claimed.map(t => t.id).join(', ')}`);
+                }
+                local.forEach(t => this.recordEvent(t, 'deleted', actor, { title: t.title, status: t.status }, null));
+                this.store.deleteTasksByMission(missionId);
+                this.store.updateMission(missionId, { title: doc.mission.title, status: doc.mission.status });
+            } else if (!existing || mode === 'new') {
+                this.store.createMission({ ...doc.mission, id: missionId });
+            }
+
+            const ids: Record<string, string> = {};
+            const created: string[] = [];
+            const conflicts: ImportConflict[] = [];
+            for (const t of doc.tasks) {
+                const local = mode === 'new' ? null : this.store.getTask(t.id);
+                if (!local) {
+                    ids[t.id] = mode === 'new' ? generateSmartId(t.title) : t.id;
+                } else if (local.mission_id !== missionId) {
+                    ids[t.id] = generateSmartId(t.title);
+                    conflicts.push({ task_id: t.id, reason: `id is used by mission ${local.mission_id}; imported as ${ids[t.id]}` });
+                } else {
+                    ids[t.id] = t.id;
+                    if (JSON.stringify(this.toExportedTask(local)) !== JSON.stringify(t)) {
+                        conflicts.push({ task_id: t.id, reason: 'differs from the local task; kept the local version' });
+                    }
+                }
+            }
+
+            const byId = new Map(doc.tasks.map(t => [t.id, t]));
+            const create = (t: ExportedTask) => {
+                const id = ids[t.id];
+                if (this.store.getTask(id)) return;
+                if (t.parent_id) create(byId.get(t.parent_id)!);
+
+                const task: Task = {
+                    ...t,
+                    id,
+                    mission_id: missionId,
+                    parent_id: t.parent_id ? ids[t.parent_id] : null,
+                    blocked_by: t.blocked_by ? ids[t.blocked_by] : null,
+                    lease_expires_at: t.status === 'in_progress' && t.assignee ? this.leaseExpiry() : null
+                };
+                this.store.createTask(task);
+                this.recordEvent(task, 'created', actor, null, { title: task.title, status: task.status, priority: task.priority, parent_id: task.parent_id, imported_from: t.id });
+                created.push(id);
+            };
+            doc.tasks.forEach(create);
+
+            const linked = new Set(this.store.getDependenciesByMission(missionId).map(d => `${d.blocker_id}->${d.blocked_id}`));
+            for (const d of doc.dependencies) {
+                const [blockerId, blockedId] = [ids[d.blocker_id], ids[d.blocked_id]];
+                if (linked.has(`${blockerId}->${blockedId}`)) continue;
+                if (this.store.hasCycle(blockerId, blockedId)) {
+                    conflicts.push({ task_id: d.blocked_id, reason: `dependency on ${d.blocker_id} would create a cycle; skipped` });
+                    continue;
+                }
+                if (this.store.getAncestorIds(blockedId).includes(blockerId) || this.store.getAncestorIds(blockerId).includes(blockedId)) {
+                    conflicts.push({ task_id: d.blocked_id, reason: `dependency on ${d.blocker_id} is within its subtask hierarchy; skipped` });
+                    continue;
+                }
+                this.store.addDependency({ blocker_id: blockerId, blocked_id: blockedId, mission_id: missionId });
+                this.recordEvent(this.store.getTask(blockedId)!, 'linked', actor, null, { blocker_id: blockerId });
+            }
+
+            // Subtasks merged under a local parent change what its status rolls up to.
+            const fresh = new Set(created);
+            created.map(id => this.store.getTask(id)!)
+                .filter(t => t.parent_id && !fresh.has(t.parent_id))
+                .forEach(t => this.rollupParent(t, actor));
+            this.refreshMissionStatus(missionId);
+            return { mission: this.getMission(missionId), ids, created, conflicts };
+        });
+    }
+
+    /**
+     * Turns imported todo items into tasks. Items already imported (same
+     * `metadata.import_key`) or matching the title of a task that existed
+     * before the import are skipped, so running an import twice creates
+     * nothing the second time. Items of one import sharing a title each get
+     * their own task. Completed items are claimed and completed by `actor`.
+     */
+    importTodos(missionId: string, todos: ImportedTodo[], actor: string = 'import'): TodoImportResult {
+        return this.store.runTransaction(() => {
+            this.getMission(missionId);
+            const existing = this.store.getTasksByMission(missionId);
+            const keys = new Set(existing.map(t => t.metadata.import_key).filter(key => typeof key === 'string'));
+            const titles = new Set(existing.map(t => normalizeTitle(t.title)));
+
+            const result: TodoImportResult = { created: [], skipped: [] };
+            for (const todo of todos) {
+                const skip = keys.has(todo.key) ? 'already imported'
+                    : titles.has(normalizeTitle(todo.title)) ? 'a task with this title exists'
+                    : null;
+                if (skip) {
+                    result.skipped.push({ title: todo.title, key: todo.key, reason: skip });
+                    continue;
+                }
+
+                const origin = todo.file ? `${todo.file}${todo.line ? `:${todo.line}` : ''}` : todo.source;
+                const task = this.createTask(missionId, todo.title, `Imported from ${origin}`, todo.priority, undefined, {
+                    source: todo.source,
+                    source_file: todo.file,
+                    source_line: todo.line,
+                    import_key: todo.key
+                }, actor);
+                if (todo.completed) {
+                    this.claimTask(task.id, actor);
+                    this.updateTaskStatus(task.id, 'completed', null, actor);
+                }
+                keys.add(todo.key);
+                result.created.push(this.store.getTask(task.id)!);
+            }
+            return result;
+        });
+    }
+
+    /**
+     * The mission as a Markdown checklist for humans to review and edit.
+     */
+    renderPlanMarkdown(missionId: string): string {
+        const mission = this.getMission(missionId);
+        return renderPlanMarkdown(mission, this.store.getTasksByMission(missionId), this.store.getDependenciesByMission(missionId));
+    }
+
+    /**
+     * Works out what an edited plan file changes. Each line's revision is
+     * compared with both the file and the mission: edits made only in the
+     * file become changes, edits made on both sides become conflicts. Ticks
+     * that the sync could not apply (a failed task, an unfinished blocker),
+     * links that would close a cycle and new lines under a completed task
+     * are conflicts too, so a dry run predicts the real sync.
+     */
+    private diffPlan(missionId: string, items: PlanItem[], actor: string): { changes: PlanChange[]; conflicts: PlanConflict[] } {
+        let changes: PlanChange[] = [];
+        const conflicts: PlanConflict[] = [];
+        const byLine = new Map(items.map(item => [item.line, item]));
+        const byId = new Map<string, PlanItem>();
+        /** Blockers of each task once the sync has run; new lines are keyed by `nodeOf`. */
+        const after = new Map<string, string[]>();
+        const nodeOf = (item: PlanItem) => item.id ?? `line ${item.line}`;
+        /** Lines that stand for a task after the sync, for working out order. */
+        const placed: PlanItem[] = [];
+        /** Lines that will not stand for any task, so nothing can be nested under them. */
+        const skipped = new Set<number>();
+
+        for (const item of items) {
+            const parentItem = item.parent_line !== null ? byLine.get(item.parent_line)! : null;
+            const unknown = item.after.filter(id => this.store.getTask(id)?.mission_id !== missionId);
+            if (unknown.length > 0) {
+                conflicts.push({ line: item.line, task_id: item.id ?? null, reason: `after: refers to unknown tasks ${unknown.join(', ')}` });
+                if (!item.id) skipped.add(item.line);
+                continue;
+            }
+            if (!item.id) {
+                const parentTask = parentItem?.id ? this.store.getTask(parentItem.id) : null;
+                const parentRefusal = parentTask ? this.subtaskRefusal(parentTask) : null;
+                const refused = parentItem && skipped.has(parentItem.line) ? 'its parent line is skipped'
+                    : parentRefusal ? `cannot add subtasks to ${parentRefusal}`
+                    : null;
+                if (refused) {
+                    conflicts.push({ line: item.line, task_id: null, reason: refused });
+                    skipped.add(item.line);
+                    continue;
+                }
+                changes.push({
+                    type: 'create', line: item.line, title: item.title, priority: item.priority,
+                    parent_id: parentItem?.id ?? null, parent_line: parentItem && !parentItem.id ? parentItem.line : null,
+                    after: [...new Set(item.after)], completed: item.checked
+                });
+                after.set(nodeOf(item), [...new Set(item.after)]);
+                placed.push(item);
+                continue;
+            }
+
+            const conflict = (reason: string) => conflicts.push({ line: item.line, task_id: item.id!, reason });
+            const task = this.store.getTask(item.id);
+            if (!task || task.mission_id !== missionId) {
+                conflict('task is not in this mission (deleted?)');
+                skipped.add(item.line);
+                continue;
+            }
+            if (byId.has(task.id)) {
+                conflict('task appears more than once');
+                continue;
+            }
+            byId.set(task.id, item);
+            if ((parentItem?.id ?? null) !== (task.parent_id ?? null)) {
+                conflict('tasks cannot be moved to another parent');
+                continue;
+            }
+            placed.push(item);
+
+            const local: PlanFields = {
+                title: planTitle(task.title),
+                priority: task.priority,
+                done: task.status === 'completed',
+                after: this.store.getDependencies(task.id).sort()
+            };
+            const edited: PlanFields = { title: item.title, priority: item.priority ?? task.priority, done: item.checked, after: [...new Set(item.after)].sort() };
+            const [localRev, editedRev] = [planFingerprint(local), planFingerprint(edited)];
+            if (editedRev === item.rev || editedRev === localRev) continue;
+            if (item.rev && localRev !== item.rev) {
+                conflict('changed in both the plan and the mission');
+                continue;
+            }
+
+            if (local.done && !edited.done) {
+                conflict('completed tasks cannot be reopened');
+                continue;
+            }
+            if (edited.done && !local.done) {
+                if (this.store.getChildren(task.id).length > 0) {
+                    conflict('status rolls up from its subtasks');
+                    continue;
+                }
+                if (task.status === 'failed' || task.status === 'blocked') {
+                    conflict(`${task.status} tasks cannot be completed`);
+                    continue;
+                }
+                if (task.assignee && task.assignee !== actor) {
+                    conflict(`claimed by ${task.assignee}`);
+                    continue;
+                }
+                const missing = (task.required_capabilities ?? []).filter(c => !this.capabilitiesOf(actor).includes(c));
+                if (missing.length > 0) {
+                    conflict(`${actor} lacks required capabilities ${missing.join(', ')}`);
+                    continue;
+                }
+            }
+
+            const edits: { title?: string; priority?: number } = {};
+            if (edited.title !== local.title) edits.title = edited.title;
+            if (edited.priority !== local.priority) edits.priority = edited.priority;
+            if (Object.keys(edits).length > 0) changes.push({ type: 'edit', task_id: task.id, changes: edits });
+            edited.after.filter(id => !local.after.includes(id)).forEach(id => changes.push({ type: 'link', blocker_id: id, blocked_id: task.id }));
+            local.after.filter(id => !edited.after.includes(id)).forEach(id => changes.push({ type: 'unlink', blocker_id: id, blocked_id: task.id }));
+            if (edited.done && !local.done) changes.push({ type: 'complete', task_id: task.id });
+            after.set(task.id, edited.after);
+        }
+
+        // The sync removes edges before adding any, then links in change order;
+        // replay that and refuse each link linkTasks would reject.
+        const edges = new Map<string, string[]>();
+        const addEdge = (blocker: string, blocked: string) => edges.set(blocker, [...(edges.get(blocker) || []), blocked]);
+        const unlinked = new Set(changes.flatMap(c => c.type === 'unlink' ? [`${c.blocker_id}->${c.blocked_id}`] : []));
+        this.store.getDependenciesByMission(missionId)
+            .filter(d => !unlinked.has(`${d.blocker_id}->${d.blocked_id}`))
+            .forEach(d => addEdge(d.blocker_id, d.blocked_id));
+        const reaches = (from: string, to: string, seen = new Set<string>()): boolean =>
+            from === to || (!seen.has(from) && (seen.add(from), (edges.get(from) || []).some(next => reaches(next, to, seen))));
+        const ancestorsOf = (item: PlanItem): string[] => {
+            if (item.id) return this.store.getAncestorIds(item.id);
+            const parent = item.parent_line !== null ? byLine.get(item.parent_line)! : null;
+            return parent ? [nodeOf(parent), ...ancestorsOf(parent)] : [];
+        };
+        const refusal = (blockerId: string, item: PlanItem): string | null => {
+            const node = nodeOf(item);
+            if (ancestorsOf(item).includes(blockerId) || this.store.getAncestorIds(blockerId).includes(node)) {
+                return `after: ${blockerId} is in the same subtask hierarchy`;
+            }
+            return reaches(node, blockerId) ? `after: ${blockerId} would create a cycle` : null;
+        };
+        const dropBlocker = (item: PlanItem, blockerId: string, reason: string) => {
+            conflicts.push({ line: item.line, task_id: item.id ?? null, reason });
+            after.set(nodeOf(item), after.get(nodeOf(item))!.filter(id => id !== blockerId));
+        };
+        changes = changes.filter(change => {
+            if (change.type !== 'link') return true;
+            const reason = refusal(change.blocker_id, byId.get(change.blocked_id)!);
+            if (reason) dropBlocker(byId.get(change.blocked_id)!, change.blocker_id, reason);
+            else addEdge(change.blocker_id, change.blocked_id);
+            return !reason;
+        });
+        for (const change of changes) {
+            if (change.type !== 'create') continue;
+            const item = byLine.get(change.line)!;
+            change.after = change.after.filter(blockerId => {
+                const reason = refusal(blockerId, item);
+                if (reason) dropBlocker(item, blockerId, reason);
+                else addEdge(blockerId, nodeOf(item));
+                return !reason;
+            });
+        }
+
+        // A tick only applies once every blocker, including those on ancestors,
+        // is done or ticked in the same file. Dropping one tick can strand
+        // another, so repeat until nothing changes.
+        const blockersOf = (item: PlanItem): string[] => {
+            const own = after.get(nodeOf(item)) ?? this.store.getDependencies(item.id!);
+            return item.parent_line !== null ? [...own, ...blockersOf(byLine.get(item.parent_line)!)] : own;
+        };
+        for (let stranded = true; stranded;) {
+            stranded = false;
+            const finishing = new Set(changes.flatMap(c => c.type === 'complete' ? [c.task_id] : []));
+            changes = changes.filter(change => {
+                const item = change.type === 'complete' ? byId.get(change.task_id)! : change.type === 'create' && change.completed ? byLine.get(change.line)! : null;
+                if (!item) return true;
+                const waiting = [...new Set(blockersOf(item))].filter(id => !finishing.has(id) && this.store.getTask(id)?.status !== 'completed');
+                if (waiting.length === 0) return true;
+
+                stranded = true;
+                conflicts.push({ line: item.line, task_id: item.id ?? null, reason: `cannot be completed before ${waiting.join(', ')}` });
+                if (change.type === 'create') change.completed = false;
+                return change.type !== 'complete';
+            });
+        }
+
+        // New lines land after their existing siblings; anything else is a reorder.
+        const rank = new Map(sortForPlan(this.store.getTasksByMission(missionId)).map((t, index) => [t.id, index]));
+        const siblings = new Map<number | null, PlanItem[]>();
+        placed.forEach(item => siblings.set(item.parent_line, [...(siblings.get(item.parent_line) || []), item]));
+        for (const [parentLine, group] of siblings) {
+            const ranks = group.map(item => item.id ? rank.get(item.id)! : Infinity);
+            if (ranks.every((r, i) => i === 0 || ranks[i - 1] <= r)) continue;
+            changes.push({ type: 'reorder', parent_id: parentLine !== null ? byLine.get(parentLine)!.id ?? null : null, lines: group.map(item => item.line) });
+        }
+
+        return { changes, conflicts };
+    }
+
+    /**
+     * Applies an edited plan file to the mission: new lines become tasks
+     * (subtasks when nested), ticked boxes complete tasks, and title,
+     * priority and `after:` edits are applied. Reordered siblings keep their
+     * new order through `metadata.plan_order`. With `dryRun` nothing is
+     * written. Changes are applied in one transaction; conflicts are skipped
+     * and reported. Tasks missing from the file are left alone.
+     */
+    syncPlanMarkdown(missionId: string, markdown: string, options: { dryRun?: boolean; actor?: string } = {}): PlanSyncResult {
+        const actor = options.actor ?? 'plan';
+        const plan = parsePlanMarkdown(markdown);
+        if (plan.mission_id && plan.mission_id !== missionId) {
+            throw new InvalidOperationError(`Plan file belongs to mission ${plan.mission_id}, not ${missionId}`);
+        }
+
+        return this.store.runTransaction(() => {
+            this.getMission(missionId);
+            const { changes, conflicts } = this.diffPlan(missionId, plan.items, actor);
+            const created: Record<number, string> = {};
+            if (options.dryRun) return { changes, conflicts, applied: false, created };
+
+            const complete = (taskId: string) => {
+                const task = this.store.getTask(taskId)!;
+                if (task.status !== 'in_progress' && task.status !== 'review') this.claimTask(taskId, actor);
+                this.updateTaskStatus(taskId, 'completed', null, actor);
+            };
+            for (const change of changes) {
+                if (change.type === 'unlink') this.unlinkTasks(change.blocker_id, change.blocked_id, actor);
+            }
+            for (const change of changes) {
+                switch (change.type) {
+                    case 'create': {
+                        const parentId = change.parent_line !== null ? created[change.parent_line] : change.parent_id;
+                        created[change.line] = this.createTask(missionId, change.title, '', change.priority, undefined, undefined, actor, { parentId: parentId ?? undefined }).id;
+                        break;
+                    }
+                    case 'edit':
+                        this.editTask(change.task_id, change.changes, actor);
+                        break;
+                    case 'link':
+                        this.linkTasks(change.blocker_id, change.blocked_id, actor);
+                        break;
+                }
+            }
+            for (const change of changes) {
+                if (change.type !== 'create') continue;
+                change.after.forEach(blockerId => this.linkTasks(blockerId, created[change.line], actor));
+            }
+            const lineIds = new Map(plan.items.map(item => [item.line, item.id ?? created[item.line]]));
+            for (const change of changes) {
+                if (change.type !== 'reorder') continue;
+                change.lines.forEach((line, position) => {
+                    const task = this.store.getTask(lineIds.get(line)!)!;
+                    if (task.metadata.plan_order === position) return;
+                    this.store.mergeTaskMetadata(task.id, { plan_order: position });
+                    this.recordEvent(task, 'metadata_changed', actor, { plan_order: task.metadata.plan_order ?? null }, { plan_order: position });
+                });
+            }
+            // Complete blockers before the tasks they block, whatever the file order.
+            let pending = changes.flatMap(c => c.type === 'complete' ? [c.task_id] : c.type === 'create' && c.completed ? [created[c.line]] : []);
+            while (pending.length > 0) {
+                const unblocked = pending.filter(id => this.store.getUnfinishedBlockers(id).length === 0);
+                (unblocked.length > 0 ? unblocked : pending).forEach(complete);
+                pending = pending.filter(id => this.store.getTask(id)!.status !== 'completed');
+            }
+
+            return { changes, conflicts, applied: true, created };
+        });
+    }
+
+    linkTasks(blockerId: string, blockedId: string, actor: string | null = null): void {
         this.store.runTransaction(() => {
             const blocker = this.store.getTask(blockerId);
             if (!blocker) throw new TaskNotFoundError(blockerId);
@@ -76,63 +925,519 @@ export class MissionManager {
             throw new CycleDetectedError(`Cycle detected: Task ${blockedId} is already a dependency of ${blockerId}`);
         }
 
+        if (this.store.getAncestorIds(blockedId).includes(blockerId) || this.store.getAncestorIds(blockerId).includes(blockedId)) {
+            throw new CycleDetectedError(`Cycle detected: Tasks ${blockerId} and ${blockedId} are in the same subtask hierarchy`);
+        }
+
             this.store.addDependency({
                 blocker_id: blockerId,
                 blocked_id: blockedId,
                 mission_id: blocker.mission_id
             });
+            this.recordEvent(blocked, 'linked', actor, null, { blocker_id: blockerId });
+
+            const failedRoot = blocker.status === 'failed' ? blocker.id
+                : blocker.status === 'blocked' ? blocker.blocked_by : null;
+            if (failedRoot) {
+                this.blockTasks([blockedId, ...this.store.getDownstreamTaskIds(blockedId)], failedRoot, actor);
+            }
         });
     }
 
     claimTask(taskId: string, agentId: string): Task {
         return this.store.runTransaction(() => {
-            const task = this.store.getTask(taskId);
+            let task = this.store.getTask(taskId);
             if (!task) throw new TaskNotFoundError(taskId);
+            this.releaseExpiredLeases(task.mission_id);
+            task = this.store.getTask(taskId)!;
             // OR, we can strictly enforce: Is it blocked?
 
-            const blockers = this.store.getDependencies(taskId);
-            for (const blockerId of blockers) {
-                const blocker = this.store.getTask(blockerId);
-                if (blocker && blocker.status !== 'completed') {
-                    throw new InvalidOperationError(`Task ${taskId} is blocked by ${blockerId}`);
-                }
+            this.assertNotParent(taskId);
+
+            const [blockerId] = this.store.getUnfinishedBlockers(taskId);
+            if (blockerId) {
+                throw new InvalidOperationError(`Task ${taskId} is blocked by ${blockerId}`);
             }
 
             if (task.assignee && task.assignee !== agentId) {
                 throw new TaskLockedError(taskId, task.assignee);
             }
 
-            if (task.status === 'completed') {
-                throw new InvalidOperationError(`Task ${taskId} is already completed`);
+            if (!isValidTransition(task.status, 'in_progress')) {
+                throw new InvalidTransitionError(taskId, task.status, 'in_progress');
+            }
+
+            const capabilities = this.capabilitiesOf(agentId);
+            const missing = (task.required_capabilities ?? []).filter(c => !capabilities.includes(c));
+            if (missing.length > 0) {
+                throw new MissingCapabilityError(taskId, agentId, missing);
             }
 
             this.store.updateTaskStatus(taskId, 'in_progress', agentId);
+            this.store.setLease(taskId, this.leaseExpiry());
+            this.store.touchAgent(agentId, this.now().toISOString());
+            this.recordEvent(task, 'claimed', agentId,
+                { status: task.status, assignee: task.assignee },
+                { status: 'in_progress', assignee: agentId });
+            this.rollupParent(task, agentId);
+            return this.store.getTask(taskId)!;
+        }, 'immediate');
+    }
+
+    /**
+     * Runs `operation` in one transaction with a check that the task is still
+     * at `expectedVersion`, so a write based on a stale read fails instead of
+     * overwriting a concurrent change. Without a version it just runs, in
+     * whatever transaction the operation opens itself. Pass 'immediate' for
+     * operations that need the write lock up front, such as claims.
+     */
+    withExpectedVersion<T>(taskId: string, expectedVersion: number | undefined, operation: () => T, mode: TransactionMode = 'deferred'): T {
+        if (expectedVersion === undefined) return operation();
+        return this.store.runTransaction(() => {
+            const task = this.store.getTask(taskId);
+            if (!task) throw new TaskNotFoundError(taskId);
+            if (task.version !== expectedVersion) {
+                throw new VersionConflictError(taskId, expectedVersion, task.version ?? 1);
+            }
+            return operation();
+        }, mode);
+    }
+
+    /**
+     * Picks the highest-priority ready task and claims it in one transaction,
+     * so concurrent agents never race between `query` and `claim`.
+     * Returns null when nothing is ready.
+     */
+    claimNext(missionId: string, agentId: string, filters: ReadyTaskFilters = {}): Task | null {
+        const validatedFilters = this.resolveFilters({ ...filters, agent_id: agentId });
+        return this.store.runTransaction(() => {
+            this.releaseExpiredLeases(missionId);
+            const [next] = this.store.getReadyTasks(missionId, 1, validatedFilters);
+            if (!next) return null;
+            return this.claimTask(next.id, agentId);
+        }, 'immediate');
+    }
+
+    /**
+     * Validates ready-task filters; an `agent_id` narrows them to tasks whose
+     * required capabilities that agent has registered. Capabilities passed
+     * alongside it can only narrow that further, never add to it.
+     */
+    private resolveFilters(filters: ReadyTaskFilters): ReadyTaskFilters {
+        const validated = ReadyTaskFiltersSchema.parse(filters);
+        if (validated.agent_id) {
+            const registered = this.capabilitiesOf(validated.agent_id);
+            validated.capabilities = validated.capabilities ? validated.capabilities.filter(c => registered.includes(c)) : registered;
+        }
+        return validated;
+    }
+
+    private capabilitiesOf(agentId: string): string[] {
+        return this.store.getAgent(agentId)?.capabilities ?? [];
+    }
+
+    /**
+     * Registers (or re-registers) an agent session with its capability tags.
+     */
+    registerAgent(agentId: string, capabilities: string[] = []): Agent {
+        const input = RegisterAgentInputSchema.parse({ id: agentId, capabilities });
+        const now = this.now().toISOString();
+        this.store.upsertAgent({
+            id: input.id,
+            capabilities: [...new Set(input.capabilities)],
+            registered_at: now,
+            last_seen_at: now
+        });
+        return this.store.getAgent(input.id)!;
+    }
+
+    listAgents(): AgentStatus[] {
+        const cutoff = this.now().getTime() - this.leaseDurationMs;
+        return this.store.getAgents().map(agent => ({
+            ...agent,
+            active: new Date(agent.last_seen_at).getTime() >= cutoff,
+            claimed_tasks: this.store.getClaimedTaskIds(agent.id)
+        }));
+    }
+
+    heartbeat(taskId: string, agentId: string): Task {
+        return this.store.runTransaction(() => {
+            let task = this.store.getTask(taskId);
+            if (!task) throw new TaskNotFoundError(taskId);
+            this.releaseExpiredLeases(task.mission_id);
+            task = this.store.getTask(taskId)!;
+
+            if (task.assignee && task.assignee !== agentId) {
+                throw new TaskLockedError(taskId, task.assignee);
+            }
+            if (task.status !== 'in_progress' || task.assignee !== agentId) {
+                throw new InvalidOperationError(`Task ${taskId} is not claimed by ${agentId}; claim it again`);
+            }
+
+            this.store.setLease(taskId, this.leaseExpiry());
+            this.store.touchAgent(agentId, this.now().toISOString());
+            return this.store.getTask(taskId)!;
+        });
+    }
+
+    /**
+     * Returns lapsed claims in a mission to `pending` so other agents can pick them up.
+     */
+    releaseExpiredLeases(missionId: string): Task[] {
+        return this.store.runTransaction(() => {
+            const expired = this.store.getExpiredLeases(missionId, this.now().toISOString());
+            for (const task of expired) {
+                this.store.updateTaskStatus(task.id, 'pending', null);
+                this.recordEvent(task, 'lease_expired', null,
+                    { status: task.status, assignee: task.assignee, lease_expires_at: task.lease_expires_at },
+                    { status: 'pending', assignee: null });
+                this.rollupParent(task, null);
+            }
+            return expired;
+        });
+    }
+
+    /**
+     * Moves a task along the status state machine. Starting work from `pending`/`ready`
+     * goes through `claimTask` (so it takes the write lock up front too), and only
+     * the assignee may finish a claimed task.
+     */
+    updateTaskStatus(taskId: string, status: TaskStatus, resultSummary: any = null, actor: string | null = null): Task {
+        return this.store.runTransaction(() => {
+            let task = this.store.getTask(taskId);
+            if (!task) throw new TaskNotFoundError(taskId);
+
+            if (!isValidTransition(task.status, status)) {
+                throw new InvalidTransitionError(taskId, task.status, status);
+            }
+            if (status !== task.status) {
+                this.assertNotParent(taskId);
+            }
+
+            // A claimed task's status belongs to its assignee; lease expiry and
+            // rollups release or move it through the store, not through here.
+            const claimed = task.status === 'in_progress' || task.status === 'review';
+            if (claimed && status !== task.status && task.assignee && task.assignee !== actor) {
+                throw new TaskOwnershipError(taskId, task.assignee, actor);
+            }
+
+            if (status === 'in_progress' && (task.status === 'pending' || task.status === 'ready')) {
+                if (!actor) {
+                    throw new InvalidOperationError(`Starting task ${taskId} requires an agent id to claim it`);
+                }
+                task = this.claimTask(taskId, actor);
+            }
+
+            let targetStatus = status;
+            let attempts = task.attempts ?? 0;
+            if (status === 'failed' && task.status !== 'failed') {
+                attempts += 1;
+                this.store.setAttempts(taskId, attempts);
+                if (attempts < (task.max_attempts ?? 1)) {
+                    targetStatus = 'pending';
+                }
+            }
+
+            let targetAssignee = task.assignee;
+            if (targetStatus === 'pending' || targetStatus === 'ready') {
+                targetAssignee = null;
+            }
+
+            const metadataPatch = resultSummary ? JSON.stringify({ result_summary: resultSummary }) : null;
+            this.store.updateTaskStatus(taskId, targetStatus, targetAssignee, metadataPatch);
+
+            if (targetStatus !== task.status || targetAssignee !== task.assignee) {
+                const newValue: Record<string, unknown> = { status: targetStatus, assignee: targetAssignee };
+                if (status === 'failed') newValue.attempts = attempts;
+                this.recordEvent(task, 'status_changed', actor,
+                    { status: task.status, assignee: task.assignee },
+                    newValue);
+            }
+
+            if (targetStatus === 'failed' && task.status !== 'failed') {
+                this.blockTasks(this.store.getDownstreamTaskIds(taskId), taskId, actor);
+            } else if (task.status === 'failed' && targetStatus === 'pending') {
+                this.unblockDownstream(taskId, actor);
+            }
+            this.rollupParent(task, actor);
+            if (resultSummary && resultSummary !== task.metadata.result_summary) {
+                this.recordEvent(task, 'metadata_changed', actor,
+                    { result_summary: task.metadata.result_summary ?? null },
+                    { result_summary: resultSummary });
+            }
+            if (targetStatus === 'completed') {
+                this.refreshMissionStatus(task.mission_id);
+            }
+
+            return this.store.getTask(taskId)!;
+        }, status === 'in_progress' ? 'immediate' : 'deferred');
+    }
+
+    /**
+     * Reopens a failed task with a fresh attempt budget and releases the
+     * tasks that were blocked because of it.
+     */
+    retryTask(taskId: string, actor: string | null = null): Task {
+        return this.store.runTransaction(() => {
+            const task = this.store.getTask(taskId);
+            if (!task) throw new TaskNotFoundError(taskId);
+            if (task.status !== 'failed') {
+                throw new InvalidOperationError(`Task ${taskId} is ${task.status}; only failed tasks can be retried`);
+            }
+
+            this.store.setAttempts(taskId, 0);
+            return this.updateTaskStatus(taskId, 'pending', null, actor);
+        });
+    }
+
+    private blockTasks(taskIds: string[], rootId: string, actor: string | null): void {
+        for (const id of taskIds) {
+            const task = this.store.getTask(id)!;
+            if (task.status !== 'pending' && task.status !== 'ready') continue;
+
+            this.store.blockTask(id, rootId);
+            this.recordEvent(task, 'status_changed', actor,
+                { status: task.status, assignee: task.assignee },
+                { status: 'blocked', assignee: null, blocked_by: rootId });
+            this.rollupParent(task, actor);
+        }
+    }
+
+    private unblockDownstream(rootId: string, actor: string | null): void {
+        const affected = this.store.getDownstreamTaskIds(rootId)
+            .filter(id => this.store.getTask(id)!.blocked_by === rootId);
+        this.reconcileBlocked(affected, actor);
+    }
+
+    /**
+     * Re-checks failure-blocked tasks after the graph changed: tasks with no failed
+     * upstream left go back to `pending`, others are re-pointed at the remaining root.
+     */
+    private reconcileBlocked(taskIds: string[], actor: string | null): void {
+        for (const id of taskIds) {
+            const task = this.store.getTask(id)!;
+            if (task.status !== 'blocked' || !task.blocked_by) continue;
+
+            const otherRoot = this.store.findFailedAncestor(id);
+            if (otherRoot === task.blocked_by) continue;
+            if (otherRoot) {
+                this.store.blockTask(id, otherRoot);
+                this.recordEvent(task, 'status_changed', actor,
+                    { status: task.status, blocked_by: task.blocked_by },
+                    { status: 'blocked', blocked_by: otherRoot });
+                continue;
+            }
+
+            this.store.updateTaskStatus(id, 'pending', null);
+            this.recordEvent(task, 'status_changed', actor,
+                { status: task.status, assignee: task.assignee, blocked_by: task.blocked_by },
+                { status: 'pending', assignee: null });
+            this.rollupParent(task, actor);
+        }
+    }
+
+    editTask(taskId: string, changes: EditTaskInput, actor: string | null = null): Task {
+        const fields = EditTaskInputSchema.parse(changes);
+        return this.store.runTransaction(() => {
+            const task = this.store.getTask(taskId);
+            if (!task) throw new TaskNotFoundError(taskId);
+
+            const oldValue: Record<string, unknown> = {};
+            const newValue: Record<string, unknown> = {};
+            for (const [key, value] of Object.entries(fields)) {
+                if (value === undefined) continue;
+                oldValue[key] = task[key as keyof EditTaskInput] ?? null;
+                newValue[key] = value;
+            }
+
+            this.store.updateTaskFields(taskId, fields);
+            this.recordEvent(task, 'edited', actor, oldValue, newValue);
             return this.store.getTask(taskId)!;
         });
     }
 
-    updateTaskStatus(taskId: string, status: TaskStatus, resultSummary: any = null): Task {
+    unlinkTasks(blockerId: string, blockedId: string, actor: string | null = null): void {
+        const input = UnlinkTasksInputSchema.parse({ blocker_id: blockerId, blocked_id: blockedId });
+        this.store.runTransaction(() => {
+            const blocked = this.store.getTask(input.blocked_id);
+            if (!blocked) throw new TaskNotFoundError(input.blocked_id);
+
+            if (!this.store.removeDependency(input.blocker_id, input.blocked_id)) {
+                throw new InvalidOperationError(`Task ${input.blocker_id} does not block ${input.blocked_id}`);
+            }
+            this.recordEvent(blocked, 'unlinked', actor, { blocker_id: input.blocker_id }, null);
+
+            this.reconcileBlocked([input.blocked_id, ...this.store.getDownstreamTaskIds(input.blocked_id)], actor);
+        });
+    }
+
+    /**
+     * Deletes a task. Tasks that others depend on, or that have subtasks, are only
+     * removed with `cascade`, which also deletes their subtasks and everything
+     * downstream of any deleted task, subtasks included.
+     * Returns the ids of all deleted tasks.
+     */
+    deleteTask(taskId: string, options: { cascade?: boolean } = {}, actor: string | null = null): string[] {
+        const input = DeleteTaskInputSchema.parse({ task_id: taskId, cascade: options.cascade });
+        return this.store.runTransaction(() => {
+            const task = this.store.getTask(input.task_id);
+            if (!task) throw new TaskNotFoundError(input.task_id);
+
+            const dependents = this.store.getDependents(task.id);
+            const children = this.store.getChildren(task.id);
+            if (!input.cascade && (dependents.length > 0 || children.length > 0)) {
+                const reasons = [
+                    dependents.length > 0 ? `blocks ${dependents.join(', ')}` : '',
+                    children.length > 0 ? `has subtasks ${children.map(c => c.id).join(', ')}` : ''
+                ].filter(Boolean).join(' and ');
+                throw new InvalidOperationError(`Task ${task.id} ${reasons}; delete with cascade to remove them too`);
+            }
+
+            const doomed = new Set<string>();
+            const queue = [task.id];
+            while (queue.length > 0) {
+                const id = queue.shift()!;
+                if (doomed.has(id)) continue;
+                doomed.add(id);
+                queue.push(...this.store.getDescendantIds(id), ...this.store.getDownstreamTaskIds(id));
+            }
+
+            const victims = [...doomed].map(id => this.store.getTask(id)!);
+            for (const victim of victims) {
+                const claimed = victim.status === 'in_progress' || victim.status === 'review';
+                if (claimed && victim.assignee && victim.assignee !== actor) {
+                    throw new TaskLockedError(victim.id, victim.assignee);
+                }
+            }
+
+            for (const victim of victims) {
+                this.recordEvent(victim, 'deleted', actor, { title: victim.title, status: victim.status }, null);
+            }
+            for (const victim of victims) {
+                this.store.deleteTask(victim.id);
+            }
+
+            if (task.parent_id && !doomed.has(task.parent_id)) {
+                const siblings = this.store.getChildren(task.parent_id);
+                if (siblings.length > 0) this.rollupParent(siblings[0], actor);
+            }
+            this.refreshMissionStatus(task.mission_id);
+
+            return [...doomed];
+        });
+    }
+
+    /**
+     * One task with its neighbourhood in the graph and how long it has been in
+     * its current status.
+     */
+    getTaskDetail(taskId: string): TaskDetail {
         const task = this.store.getTask(taskId);
         if (!task) throw new TaskNotFoundError(taskId);
 
-            let targetAssignee = task.assignee;
-        if (status === 'pending' || status === 'ready') {
-            targetAssignee = null;
+        const link = (t: Task): TaskLink => ({ id: t.id, title: t.title, status: t.status, assignee: t.assignee });
+        const parent = task.parent_id ? this.store.getTask(task.parent_id) : null;
+        const since = this.store.getStatusChangedAt(taskId) ?? task.updated_at;
+
+        return {
+            task,
+            parent: parent ? link(parent) : null,
+            subtasks: this.store.getChildren(taskId).map(link),
+            blockers: this.store.getTasksByIds(this.store.getDependencies(taskId)).map(link),
+            dependents: this.store.getTasksByIds(this.store.getDependents(taskId)).map(link),
+            status_since: since,
+            time_in_status_ms: Math.max(0, this.now().getTime() - new Date(since).getTime())
+        };
+    }
+
+    /**
+     * Explains why a task is not in the ready list: its own state, plus the full
+     * chain of unfinished blockers (including those inherited from parents and the
+     * unfinished subtasks of blocking parents).
+     */
+    explainBlocked(taskId: string): BlockedExplanation {
+        const task = this.store.getTask(taskId);
+        if (!task) throw new TaskNotFoundError(taskId);
+
+        const unfinishedChildren = (id: string) => this.store.getChildren(id).filter(c => c.status !== 'completed');
+        const gatesOf = (id: string) => [...this.store.getUnfinishedBlockers(id), ...unfinishedChildren(id).map(c => c.id)];
+
+        const blockers: BlockerInfo[] = [];
+        const seen = new Set<string>([taskId]);
+        const queue: { id: string; depth: number }[] = [{ id: taskId, depth: 0 }];
+        while (queue.length > 0) {
+            const { id, depth } = queue.shift()!;
+            const gates = id === taskId ? this.store.getUnfinishedBlockers(id) : gatesOf(id);
+            for (const gateId of gates) {
+                if (seen.has(gateId)) continue;
+                seen.add(gateId);
+                const gate = this.store.getTask(gateId)!;
+                blockers.push({ id: gate.id, title: gate.title, status: gate.status, assignee: gate.assignee, blocks: id, depth: depth + 1 });
+                queue.push({ id: gateId, depth: depth + 1 });
+            }
         }
+        const frontier = blockers.filter(b => gatesOf(b.id).length === 0);
 
-        let metadataString: string | null = null;
-        if (resultSummary) {
-            const newMetadata = { ...task.metadata, result_summary: resultSummary };
-            metadataString = JSON.stringify(newMetadata);
+        const reasons: string[] = [];
+        const children = unfinishedChildren(taskId);
+        switch (task.status) {
+            case 'completed':
+                reasons.push('Task is already completed');
+                break;
+            case 'in_progress':
+                reasons.push(task.assignee
+                    ? `Claimed by ${task.assignee}${task.lease_expires_at ? ` (lease until ${task.lease_expires_at})` : ''}`
+                    : 'Already in progress');
+                break;
+            case 'review':
+                reasons.push(`In review${task.assignee ? ` (assignee ${task.assignee})` : ''}`);
+                break;
+            case 'failed':
+                reasons.push(`Failed after ${task.attempts ?? 0}/${task.max_attempts ?? 1} attempt(s); use retry to reopen it`);
+                break;
+            case 'blocked':
+                reasons.push(task.blocked_by ? `Blocked because upstream task ${task.blocked_by} failed` : 'Marked as blocked');
+                break;
+        }
+        if (children.length > 0) {
+            reasons.push(`Parent task; its status follows ${children.length} unfinished subtask(s)`);
+        }
+        if (blockers.length > 0) {
+            reasons.push(`Waiting on ${blockers.filter(b => b.depth === 1).length} direct and ${blockers.length} total unfinished blocker(s)`);
         }
 
-        this.store.updateTaskStatus(taskId, status, targetAssignee, metadataString);
+        const ready = task.status === 'pending' && blockers.length === 0 && children.length === 0;
+        return { task, ready, reasons, blockers, frontier };
+    }
+
+    getTaskHistory(taskId: string): TaskEvent[] {
+        const events = this.store.getTaskEvents(taskId);
+        // Deleted tasks keep their history
+        if (events.length === 0 && !this.store.getTask(taskId)) throw new TaskNotFoundError(taskId);
+        return events;
+    }
+
+    getReadyTasks(missionId: string, limit: number, filters: ReadyTaskFilters = {}): Task[] {
+        this.releaseExpiredLeases(missionId);
+        return this.store.getReadyTasks(missionId, limit, this.resolveFilters(filters));
+    }
 
-        return this.store.getTask(taskId)!;
+    /**
+     * Dashboard figures for a mission; expired claims are released first so
+     * the ready and in-progress numbers are current.
+     */
+    getMissionSummary(missionId: string, limit: number = 5): MissionSummary {
+        this.getMission(missionId);
+        this.releaseExpiredLeases(missionId);
+        return this.store.getMissionSummary(missionId, limit);
     }
 
-    getReadyTasks(missionId: string, limit: number): Task[] {
-        return this.store.getReadyTasks(missionId, limit);
+    /**
+     * Recomputes every task's unfinished blocker count and reports counters
+     * that drifted from the graph; `repair` rewrites them.
+     */
+    checkReadinessIntegrity(options: { repair?: boolean } = {}): BlockerCountMismatch[] {
+        return this.store.checkBlockerCounts(options.repair ?? false);
     }
 
     getAllTasks(missionId: string): Task[] {
@@ -140,10 +1445,97 @@ export class MissionManager {
     }
 
     getActiveTasks(missionId: string): Task[] {
-        return this.store.getTasksByMission(missionId).filter(t => t.status === 'in_progress');
+        const query = TaskQuerySchema.parse({ statuses: ['in_progress'], sort: 'created_at' });
+        return this.store.queryTasks(missionId, { ...query, limit: -1 });
+    }
+
+    /**
+     * One page of a mission's tasks matching `query`, filtered and sorted in SQL.
+     */
+    queryTasks(missionId: string, query: Partial<TaskQuery> = {}): TaskPage {
+        const validated = TaskQuerySchema.parse(query);
+        let after: (string | number)[] | null = null;
+        if (validated.cursor) {
+            try {
+                after = JSON.parse(Buffer.from(validated.cursor, 'base64url').toString('utf-8'));
+            } catch {
+                after = null;
+            }
+            if (!Array.isArray(after) || after.length !== TASK_SORT_KEYS[validated.sort].length) {
+                throw new InvalidOperationError(`Cursor does not match sort '${validated.sort}'`);
+            }
+        }
+
+        const rows = this.store.queryTasks(missionId, { ...validated, limit: validated.limit + 1 }, after);
+        const tasks = rows.slice(0, validated.limit);
+        const last = tasks[tasks.length - 1];
+        const next_cursor = rows.length > validated.limit
+            ? Buffer.from(JSON.stringify(TASK_SORT_KEYS[validated.sort].map(k => last[k]))).toString('base64url')
+            : null;
+        return { tasks, next_cursor };
+    }
+
+    /**
+     * Full-text search over task titles, descriptions, acceptance criteria and
+     * result summaries. Every word must match, as a whole word or a prefix.
+     */
+    searchTasks(query: string, options: Partial<Omit<SearchTasksInput, 'query'>> = {}): TaskSearchHit[] {
+        const validated = SearchTasksInputSchema.parse({ ...options, query });
+        const terms = validated.query.match(/[\p{L}\p{N}_]+/gu);
+        if (!terms) throw new InvalidOperationError(`Search query '${validated.query}' contains no searchable words`);
+        if (validated.mission_id) this.getMission(validated.mission_id);
+
+        const match = terms.map(term => `"${term}"*`).join(' ');
+        return this.store.searchTasks(match, validated.mission_id ?? null, validated.limit);
     }
 
     getDependencies(taskId: string): string[] {
         return this.store.getDependencies(taskId);
     }
+
+    /**
+     * Blockers of every task in a mission, keyed by the blocked task. Loaded in
+     * one query so reports do not fetch dependencies task by task.
+     */
+    getBlockerIndex(missionId: string): Map<string, TaskLink[]> {
+        const index = new Map<string, TaskLink[]>();
+        for (const { blocked_id, ...blocker } of this.store.getBlockerLinks(missionId)) {
+            index.set(blocked_id, [...(index.get(blocked_id) || []), blocker]);
+        }
+        return index;
+    }
+
+    private getWorkGraph(missionId: string) {
+        if (!this.store.getMission(missionId)) throw new MissionNotFoundError(missionId);
+        return buildWorkGraph(this.store.getTasksByMission(missionId), this.store.getDependenciesByMission(missionId));
+    }
+
+    /**
+     * Unfinished leaf tasks in an order that respects every dependency.
+     */
+    getTopologicalOrder(missionId: string): Task[] {
+        const { nodes, blockers } = this.getWorkGraph(missionId);
+        return topologicalOrder(nodes, blockers);
+    }
+
+    /**
+     * Unfinished leaf tasks grouped into waves that can each run in parallel.
+     */
+    getExecutionWaves(missionId: string): Task[][] {
+        const { nodes, blockers } = this.getWorkGraph(missionId);
+        return executionWaves(nodes, blockers);
+    }
+
+    getCriticalPath(missionId: string, options: PlanningOptions = {}): CriticalPath {
+        const { nodes, blockers } = this.getWorkGraph(missionId);
+        return criticalPath(nodes, blockers, options);
+    }
+
+    /**
+     * The mission's dependency graph as Mermaid or DOT text.
+     */
+    renderMissionGraph(missionId: string, options: GraphOptions = {}): string {
+        this.getMission(missionId);
+        return renderGraph(this.store.getTasksByMission(missionId), this.store.getDependenciesByMission(missionId), options);
+    }
 }
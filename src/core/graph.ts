@@ -0,0 +1,105 @@
+import { Task, Dependency, TaskStatus } from "../types";
+import { TaskNotFoundError } from "../types/errors";
+
+export type GraphFormat = 'mermaid' | 'dot';
+
+export interface GraphOptions {
+    format?: GraphFormat;
+    /** Only render tasks within `hops` dependency edges of this task. */
+    focus?: string;
+    /** Hops to follow upstream and downstream from `focus` (default 2). */
+    hops?: number;
+}
+
+const STATUS_STYLES: Record<TaskStatus, { fill: string; stroke: string }> = {
+    pending: { fill: '#f5f5f5', stroke: '#9e9e9e' },
+    ready: { fill: '#e3f2fd', stroke: '#1e88e5' },
+    in_progress: { fill: '#fff8e1', stroke: '#f9a825' },
+    review: { fill: '#f3e5f5', stroke: '#8e24aa' },
+    completed: { fill: '#e8f5e9', stroke: '#43a047' },
+    failed: { fill: '#ffebee', stroke: '#e53935' },
+    blocked: { fill: '#eceff1', stroke: '#546e7a' },
+};
+
+const nodeId = (id: string) => id.replace(/\W/g, '_');
+
+/**
+ * Task ids within `hops` dependency edges of `focus`, walking blockers and
+ * dependents separately so siblings of a shared blocker are not pulled in.
+ */
+function neighborhood(focus: string, dependencies: Dependency[], hops: number): Set<string> {
+    const included = new Set([focus]);
+    const walk = (from: keyof Dependency, to: keyof Dependency) => {
+        let frontier = [focus];
+        for (let hop = 0; hop < hops && frontier.length > 0; hop++) {
+            const next: string[] = [];
+            for (const d of dependencies) {
+                if (frontier.includes(d[from]) && !included.has(d[to])) {
+                    included.add(d[to]);
+                    next.push(d[to]);
+                }
+            }
+            frontier = next;
+        }
+    };
+    walk('blocked_id', 'blocker_id');
+    walk('blocker_id', 'blocked_id');
+    return included;
+}
+
+/**
+ * Renders tasks and their dependencies as a Mermaid flowchart or Graphviz DOT
+ * digraph. Dependency edges point from blocker to blocked; subtasks hang off
+ * their parent with a dashed edge.
+ */
+export function renderGraph(tasks: Task[], dependencies: Dependency[], options: GraphOptions = {}): string {
+    let nodes = tasks;
+    if (options.focus) {
+        if (!tasks.some(t => t.id === options.focus)) throw new TaskNotFoundError(options.focus);
+        const scope = neighborhood(options.focus, dependencies, options.hops ?? 2);
+        nodes = tasks.filter(t => scope.has(t.id));
+    }
+
+    const ids = new Set(nodes.map(t => t.id));
+    const edges = dependencies.filter(d => ids.has(d.blocker_id) && ids.has(d.blocked_id));
+    const parents = nodes.filter(t => t.parent_id && ids.has(t.parent_id));
+
+    return options.format === 'dot'
+        ? renderDot(nodes, edges, parents, options.focus)
+        : renderMermaid(nodes, edges, parents, options.focus);
+}
+
+function renderMermaid(nodes: Task[], edges: Dependency[], children: Task[], focus?: string): string {
+    const label = (t: Task) => `${t.title} (${t.status})`.replace(/"/g, '#quot;');
+    const lines = ['flowchart TD'];
+
+    nodes.forEach(t => lines.push(`    ${nodeId(t.id)}["${label(t)}"]`));
+    edges.forEach(d => lines.push(`    ${nodeId(d.blocker_id)} --> ${nodeId(d.blocked_id)}`));
+    children.forEach(t => lines.push(`    ${nodeId(t.parent_id!)} -.-> ${nodeId(t.id)}`));
+
+    for (const [status, style] of Object.entries(STATUS_STYLES)) {
+        const members = nodes.filter(t => t.status === status);
+        if (members.length === 0) continue;
+        lines.push(`    classDef ${status} fill:${style.fill},stroke:${style.stroke}`);
+        lines.push(`    class ${members.map(t => nodeId(t.id)).join(',')} ${status}`);
+    }
+    if (focus) lines.push(`    style ${nodeId(focus)} stroke-width:3px`);
+
+    return lines.join('\n');
+}
+
+function renderDot(nodes: Task[], edges: Dependency[], children: Task[], focus?: string): string {
+    const label = (t: Task) => `${t.title}\\n(${t.status})`.replace(/"/g, '\\"');
+    const lines = ['digraph mission {', '    rankdir=TB;', '    node [shape=box, style="rounded,filled"];'];
+
+    for (const t of nodes) {
+        const style = STATUS_STYLES[t.status];
+        const emphasis = t.id === focus ? ', penwidth=3' : '';
+        lines.push(`    ${nodeId(t.id)} [label="${label(t)}", fillcolor="${style.fill}", color="${style.stroke}"${emphasis}];`);
+    }
+    edges.forEach(d => lines.push(`    ${nodeId(d.blocker_id)} -> ${nodeId(d.blocked_id)};`));
+    children.forEach(t => lines.push(`    ${nodeId(t.parent_id!)} -> ${nodeId(t.id)} [style=dashed, arrowhead=none];`));
+
+    lines.push('}');
+    return lines.join('\n');
+}
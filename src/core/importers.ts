@@ -0,0 +1,142 @@
+import { readdirSync, readFileSync, statSync } from "fs";
+import { join, relative } from "path";
+import { z } from "zod";
+import { OpencodeTodoSchema } from "../types/schemas";
+
+export type TodoSource = 'opencode' | 'markdown' | 'comment';
+
+/** One item found by an importer, before it becomes a task. */
+export interface ImportedTodo {
+    title: string;
+    priority: number;
+    completed: boolean;
+    source: TodoSource;
+    file: string | null;
+    line: number | null;
+    /** Stable identity of the item across runs; stored as `metadata.import_key`. */
+    key: string;
+}
+
+const OPENCODE_PRIORITY = { high: 1, medium: 2, low: 3 } as const;
+
+const TASK_LIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s+\[([ xX])\]\s+(.+?)\s*$/;
+/**
+ * Markers inside quoted strings do not count, and `#` or `--` only open a
+ * comment at the start of a line or after whitespace.
+ */
+const TODO_COMMENT = /^(?:[^"'`]|"(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*'|`(?:\\.|[^`\\])*`)*?(?:\/\/|\/\*|<!--|^\s*\*|(?<![^\s])(?:#|--))\s*(TODO|FIXME)(?:\([^)]*\))?:\s*(.+?)\s*(?:\*\/|-->)?\s*$/;
+
+const SKIPPED_DIRECTORIES = new Set(['node_modules', 'dist', 'build', 'coverage', 'vendor', 'target']);
+const MAX_SCANNED_FILE_BYTES = 1024 * 1024;
+
+/** Lower-cased title with collapsed whitespace, used to spot duplicates. */
+export function normalizeTitle(title: string): string {
+    return title.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Numbers repeats of a key within one file (`#2`, `#3`, ...), so identical
+ * lines stay separate items and keep their own line numbers.
+ */
+function numberRepeats(todos: ImportedTodo[]): ImportedTodo[] {
+    const seen = new Map<string, number>();
+    return todos.map(todo => {
+        const count = (seen.get(todo.key) ?? 0) + 1;
+        seen.set(todo.key, count);
+        return count === 1 ? todo : { ...todo, key: `${todo.key}#${count}` };
+    });
+}
+
+/**
+ * Reads an opencode todo list: either the bare array `todowrite` stores or
+ * an object with a `todos` array. Cancelled items are dropped.
+ */
+export function parseOpencodeTodos(json: unknown, file: string | null = null): ImportedTodo[] {
+    const list = Array.isArray(json) ? json : (json as { todos?: unknown })?.todos;
+    const todos = z.array(OpencodeTodoSchema).parse(list);
+    return todos
+        .filter(todo => todo.status !== 'cancelled')
+        .map(todo => ({
+            title: todo.content,
+            priority: OPENCODE_PRIORITY[todo.priority],
+            completed: todo.status === 'completed',
+            source: 'opencode',
+            file,
+            line: null,
+            key: `opencode:${todo.id ?? normalizeTitle(todo.content)}`
+        }));
+}
+
+/**
+ * Reads GitHub-style task list items (`- [ ] ...`, `1. [x] ...`) from Markdown.
+ */
+export function parseMarkdownTaskList(text: string, file: string | null = null): ImportedTodo[] {
+    const todos: ImportedTodo[] = [];
+    text.split(/\r?\n/).forEach((raw, index) => {
+        const item = TASK_LIST_ITEM.exec(raw);
+        if (!item) return;
+        todos.push({
+            title: item[2],
+            priority: 2,
+            completed: item[1] !== ' ',
+            source: 'markdown',
+            file,
+            line: index + 1,
+            key: `markdown:${file ?? ''}:${normalizeTitle(item[2])}`
+        });
+    });
+    return numberRepeats(todos);
+}
+
+/**
+ * Finds `TODO:` and `FIXME:` comments in source text. FIXMEs are more urgent.
+ * Keys leave out the line number so edits above a comment do not re-import it.
+ */
+export function parseTodoComments(text: string, file: string): ImportedTodo[] {
+    const todos: ImportedTodo[] = [];
+    text.split(/\r?\n/).forEach((raw, index) => {
+        const comment = TODO_COMMENT.exec(raw);
+        if (!comment) return;
+        const [, tag, note] = comment;
+        todos.push({
+            title: note,
+            priority: tag === 'FIXME' ? 1 : 2,
+            completed: false,
+            source: 'comment',
+            file,
+            line: index + 1,
+            key: `comment:${file}:${tag}:${normalizeTitle(note)}`
+        });
+    });
+    return numberRepeats(todos);
+}
+
+/**
+ * Walks the working tree for TODO/FIXME comments. Hidden directories,
+ * dependency and build output folders, large files and binaries are skipped.
+ * Paths in the result are relative to `root`; when `root` is a single file,
+ * only that file is read and it is reported as given.
+ */
+export function scanTodoComments(root: string): ImportedTodo[] {
+    const todos: ImportedTodo[] = [];
+    const scanFile = (path: string, file: string) => {
+        if (statSync(path).size > MAX_SCANNED_FILE_BYTES) return;
+        const content = readFileSync(path);
+        if (content.includes(0)) return;
+        todos.push(...parseTodoComments(content.toString('utf-8'), file));
+    };
+    const walk = (dir: string) => {
+        for (const entry of readdirSync(dir, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name))) {
+            if (entry.name.startsWith('.')) continue;
+            const path = join(dir, entry.name);
+            if (entry.isDirectory()) {
+                if (!SKIPPED_DIRECTORIES.has(entry.name)) walk(path);
+                continue;
+            }
+            if (entry.isFile()) scanFile(path, relative(root, path));
+        }
+    };
+    if (statSync(root).isFile()) scanFile(root, root);
+    else walk(root);
+    return todos;
+}
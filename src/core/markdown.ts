@@ -0,0 +1,154 @@
+import { createHash } from "crypto";
+import { Mission, Task, Dependency } from "../types";
+import { TaskStatusSchema } from "../types/schemas";
+
+/** The parts of a task a plan file can change. */
+export interface PlanFields {
+    title: string;
+    priority: number;
+    done: boolean;
+    /** Ids of the tasks this one waits for. */
+    after: string[];
+}
+
+export interface PlanItem {
+    /** 1-based line number in the file. */
+    line: number;
+    /** Line of the enclosing item, or null at the top level. */
+    parent_line: number | null;
+    title: string;
+    checked: boolean;
+    /** Absent when the line has no `P<n>` tag. */
+    priority?: number;
+    after: string[];
+    id?: string;
+    /** Fingerprint of the task when the file was written. */
+    rev?: string;
+}
+
+export interface ParsedPlan {
+    mission_id: string | null;
+    items: PlanItem[];
+}
+
+const ITEM_LINE = /^(\s*)[-*] \[([ xX])\] (.*)$/;
+const ITEM_MARKER = /\s*<!--\s*id:(\S+)(?:\s+rev:(\S+))?\s*-->\s*$/;
+const TRAILING_TAG = /\s*`([^`]*)`\s*$/;
+const MISSION_MARKER = /<!--\s*mission:(\S+)/;
+const STATUS_TAG = new RegExp(`^(${TaskStatusSchema.options.join('|')})( @\\S+)?$`);
+
+/** A task title as it appears on one plan line: whitespace runs collapsed, ends trimmed. */
+export function planTitle(title: string): string {
+    return title.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Short hash of the editable fields; written next to each task so a later
+ * sync can tell which side changed it.
+ */
+export function planFingerprint(fields: PlanFields): string {
+    const canonical = JSON.stringify([fields.title, fields.priority, fields.done, [...fields.after].sort()]);
+    return createHash("sha256").update(canonical).digest("hex").substring(0, 8);
+}
+
+/**
+ * Puts tasks in plan order: by the `metadata.plan_order` a synced plan file
+ * gave them, otherwise in the order given (creation order from the store).
+ */
+export function sortForPlan(tasks: Task[]): Task[] {
+    const position = (t: Task) => typeof t.metadata.plan_order === 'number' ? t.metadata.plan_order : Infinity;
+    return [...tasks].sort((a, b) => position(a) - position(b));
+}
+
+/**
+ * Writes a mission as a Markdown checklist. Subtasks are nested under their
+ * parent, siblings follow `sortForPlan`, and every line carries its
+ * priority, status, blockers (`after:`) and a hidden id and revision.
+ */
+export function renderPlanMarkdown(mission: Mission, tasks: Task[], dependencies: Dependency[]): string {
+    const after = new Map<string, string[]>();
+    for (const d of dependencies) after.set(d.blocked_id, [...(after.get(d.blocked_id) || []), d.blocker_id]);
+
+    const ids = new Set(tasks.map(t => t.id));
+    const children = new Map<string | null, Task[]>();
+    for (const t of sortForPlan(tasks)) {
+        const parent = t.parent_id && ids.has(t.parent_id) ? t.parent_id : null;
+        children.set(parent, [...(children.get(parent) || []), t]);
+    }
+
+    const lines = [
+        `# ${mission.title}`,
+        '',
+        `<!-- mission:${mission.id} — tick boxes, edit titles, \`P<n>\` and \`after:\` tags, reorder or add lines; then sync the plan. -->`,
+        ''
+    ];
+    const walk = (t: Task, depth: number) => {
+        const fields: PlanFields = {
+            title: planTitle(t.title),
+            priority: t.priority,
+            done: t.status === 'completed',
+            after: [...(after.get(t.id) || [])].sort()
+        };
+        const tags = [`P${t.priority}`, `${t.status}${t.assignee ? ` @${t.assignee}` : ''}`];
+        if (fields.after.length > 0) tags.push(`after: ${fields.after.join(', ')}`);
+        lines.push(`${'  '.repeat(depth)}- [${fields.done ? 'x' : ' '}] ${fields.title} ${tags.map(tag => `\`${tag}\``).join(' ')} <!-- id:${t.id} rev:${planFingerprint(fields)} -->`);
+        (children.get(t.id) || []).forEach(c => walk(c, depth + 1));
+    };
+    (children.get(null) || []).forEach(t => walk(t, 0));
+
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Reads checklist items back from a plan file. Lines that are not checklist
+ * items are ignored; nesting is taken from indentation.
+ */
+export function parsePlanMarkdown(text: string): ParsedPlan {
+    const items: PlanItem[] = [];
+    const stack: { indent: number; line: number }[] = [];
+    let missionId: string | null = null;
+
+    text.split(/\r?\n/).forEach((raw, index) => {
+        const line = index + 1;
+        const item = ITEM_LINE.exec(raw);
+        if (!item) {
+            missionId ??= MISSION_MARKER.exec(raw)?.[1] ?? null;
+            return;
+        }
+
+        let rest = item[3];
+        const marker = ITEM_MARKER.exec(rest);
+        if (marker) rest = rest.slice(0, marker.index);
+
+        let priority: number | undefined;
+        let after: string[] = [];
+        // Peel known tags off the end; other code spans belong to the title.
+        for (let tag = TRAILING_TAG.exec(rest); tag; tag = TRAILING_TAG.exec(rest)) {
+            const value = tag[1].trim();
+            const priorityTag = /^P([0-4])$/.exec(value);
+            if (priorityTag) priority = Number(priorityTag[1]);
+            else if (value.startsWith('after:')) after = value.slice('after:'.length).split(/[\s,]+/).filter(Boolean);
+            else if (!STATUS_TAG.test(value)) break;
+            rest = rest.slice(0, tag.index);
+        }
+
+        const title = rest.trim();
+        if (!title) return;
+
+        const indent = item[1].replace(/\t/g, '    ').length;
+        while (stack.length > 0 && stack[stack.length - 1].indent >= indent) stack.pop();
+        items.push({
+            line,
+            parent_line: stack.length > 0 ? stack[stack.length - 1].line : null,
+            title,
+            checked: item[2] !== ' ',
+            priority,
+            after,
+            id: marker?.[1],
+            rev: marker?.[2]
+        });
+        stack.push({ indent, line });
+    });
+
+    return { mission_id: missionId, items };
+}
@@ -0,0 +1,177 @@
+import { Task, Dependency } from "../types";
+import { CycleDetectedError } from "../types/errors";
+
+export interface CriticalPath {
+    tasks: Task[];
+    length: number;
+}
+
+export interface PlanningOptions {
+    /** Weight tasks by `metadata.estimate` instead of counting each as 1. */
+    weighted?: boolean;
+}
+
+const byUrgency = (a: Task, b: Task) => a.priority - b.priority || a.created_at.localeCompare(b.created_at);
+
+export function taskWeight(task: Task, options: PlanningOptions = {}): number {
+    if (!options.weighted) return 1;
+    const estimate = Number(task.metadata?.estimate);
+    return Number.isFinite(estimate) && estimate > 0 ? estimate : 1;
+}
+
+/**
+ * Reduces a mission to the schedulable graph: leaf tasks that are not completed,
+ * with edges on a parent expanded to every leaf beneath it.
+ */
+export function buildWorkGraph(tasks: Task[], dependencies: Dependency[]): { nodes: Task[]; blockers: Map<string, string[]> } {
+    const children = new Map<string, string[]>();
+    for (const t of tasks) {
+        if (t.parent_id) children.set(t.parent_id, [...(children.get(t.parent_id) || []), t.id]);
+    }
+
+    const leavesOf = (id: string): string[] => {
+        const kids = children.get(id);
+        return kids ? kids.flatMap(leavesOf) : [id];
+    };
+
+    const nodes = tasks.filter(t => !children.has(t.id) && t.status !== 'completed').sort(byUrgency);
+    const included = new Set(nodes.map(t => t.id));
+    const blockers = new Map<string, string[]>(nodes.map(t => [t.id, []]));
+
+    const addEdge = (from: string, to: string) => {
+        if (!included.has(from) || !included.has(to)) return;
+        const list = blockers.get(to)!;
+        if (!list.includes(from)) list.push(from);
+    };
+
+    const byId = new Map(tasks.map(t => [t.id, t]));
+    const ancestorsOf = (task: Task): string[] => {
+        const ids: string[] = [];
+        for (let parentId = task.parent_id; parentId; parentId = byId.get(parentId)?.parent_id) {
+            ids.push(parentId);
+        }
+        return ids;
+    };
+
+    const edgesByBlocked = new Map<string, string[]>();
+    for (const d of dependencies) {
+        edgesByBlocked.set(d.blocked_id, [...(edgesByBlocked.get(d.blocked_id) || []), d.blocker_id]);
+    }
+
+    for (const node of nodes) {
+        for (const gatedId of [node.id, ...ancestorsOf(node)]) {
+            for (const blockerId of edgesByBlocked.get(gatedId) || []) {
+                leavesOf(blockerId).forEach(leaf => addEdge(leaf, node.id));
+            }
+        }
+    }
+
+    return { nodes, blockers };
+}
+
+/**
+ * Finds one cycle among directed edges. Returns the nodes along it with the
+ * first repeated at the end, or null when the edges form a DAG.
+ */
+export function findCycle(edges: [string, string][]): string[] | null {
+    const next = new Map<string, string[]>();
+    for (const [from, to] of edges) next.set(from, [...(next.get(from) || []), to]);
+
+    const done = new Set<string>();
+    const path: string[] = [];
+    const visit = (node: string): string[] | null => {
+        const index = path.indexOf(node);
+        if (index >= 0) return [...path.slice(index), node];
+        if (done.has(node)) return null;
+
+        path.push(node);
+        for (const target of next.get(node) || []) {
+            const cycle = visit(target);
+            if (cycle) return cycle;
+        }
+        path.pop();
+        done.add(node);
+        return null;
+    };
+
+    for (const node of next.keys()) {
+        const cycle = visit(node);
+        if (cycle) return cycle;
+    }
+    return null;
+}
+
+/**
+ * Kahn's algorithm; ties are broken by priority, then creation time.
+ */
+export function topologicalOrder(nodes: Task[], blockers: Map<string, string[]>): Task[] {
+    const byId = new Map(nodes.map(t => [t.id, t]));
+    const remaining = new Map(nodes.map(t => [t.id, (blockers.get(t.id) || []).length]));
+    const dependents = new Map<string, string[]>();
+    for (const [blocked, list] of blockers) {
+        for (const blocker of list) dependents.set(blocker, [...(dependents.get(blocker) || []), blocked]);
+    }
+
+    const queue = nodes.filter(t => remaining.get(t.id) === 0);
+    const order: Task[] = [];
+    while (queue.length > 0) {
+        queue.sort(byUrgency);
+        const next = queue.shift()!;
+        order.push(next);
+        for (const id of dependents.get(next.id) || []) {
+            const left = remaining.get(id)! - 1;
+            remaining.set(id, left);
+            if (left === 0) queue.push(byId.get(id)!);
+        }
+    }
+
+    if (order.length !== nodes.length) {
+        throw new CycleDetectedError();
+    }
+    return order;
+}
+
+/**
+ * Groups tasks into waves: every task's blockers sit in earlier waves, so all
+ * tasks of one wave can run in parallel.
+ */
+export function executionWaves(nodes: Task[], blockers: Map<string, string[]>): Task[][] {
+    const level = new Map<string, number>();
+    for (const task of topologicalOrder(nodes, blockers)) {
+        const deps = blockers.get(task.id) || [];
+        level.set(task.id, deps.length === 0 ? 0 : Math.max(...deps.map(id => level.get(id)!)) + 1);
+    }
+
+    const waves: Task[][] = [];
+    for (const task of nodes) {
+        const index = level.get(task.id)!;
+        (waves[index] ||= []).push(task);
+    }
+    return waves.map(wave => wave.sort(byUrgency));
+}
+
+/**
+ * Longest chain through the graph, i.e. the tasks that gate delivery.
+ */
+export function criticalPath(nodes: Task[], blockers: Map<string, string[]>, options: PlanningOptions = {}): CriticalPath {
+    const distance = new Map<string, number>();
+    const previous = new Map<string, string | null>();
+    const byId = new Map(nodes.map(t => [t.id, t]));
+
+    let end: Task | null = null;
+    for (const task of topologicalOrder(nodes, blockers)) {
+        let best: string | null = null;
+        for (const id of blockers.get(task.id) || []) {
+            if (best === null || distance.get(id)! > distance.get(best)!) best = id;
+        }
+        distance.set(task.id, taskWeight(task, options) + (best ? distance.get(best)! : 0));
+        previous.set(task.id, best);
+        if (!end || distance.get(task.id)! > distance.get(end.id)!) end = task;
+    }
+
+    const path: Task[] = [];
+    for (let id: string | null = end ? end.id : null; id; id = previous.get(id) ?? null) {
+        path.unshift(byId.get(id)!);
+    }
+    return { tasks: path, length: end ? distance.get(end.id)! : 0 };
+}
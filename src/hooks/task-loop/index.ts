@@ -1,5 +1,5 @@
 import { MissionManager } from "../../core/MissionManager";
-import { getContextMissionId } from "../../utils/context";
+import { getActiveMissionId } from "../../utils/context";
 import { CONTINUATION_PROMPT } from "./constants";
 import * as fs from "fs";
 import * as path from "path";
@@ -27,9 +27,8 @@ export const createSessionIdleHook = (missionManager: MissionManager, client: an
     // 2. Mission Context Check
     // We need to know which mission we are in.
     // The event might have session info.
-    const missionId = getContextMissionId();
-    // Note: getContextMissionId() uses process.env or similar?
-    // If it relies on a specific context that might not be set in idle event, we might need to look at event.
+    // The session may have switched away from the directory's default mission.
+    const missionId = getActiveMissionId(event.session?.id);
 
     try {
         // 3. Check for Incomplete Tasks
@@ -37,21 +37,25 @@ If the query returns **empty** (no ready tasks), it means either:
 1.  **Create** the end-goal task (e.g., "Deploy App").
 2.  **Create** the dependency tasks (e.g., "Build App", "Configure Server").
 3.  **Link** them immediately: \`Link(Blocker: "Build App", Blocked: "Deploy App")\`.
+    For a whole plan, send every task and edge in one \`submit_plan\` call instead; it is all-or-nothing.
+4.  **Group** large goals: create subtasks with \`parent_id\`; the parent completes when all of its subtasks do.
+5.  **Route** specialised work: set \`required_capabilities\` (e.g. \`["frontend"]\`) so only agents that registered those capabilities pick it up.
 
 **Anti-Pattern**: keeping the plan only in your context window. *If it's not in Mission Control, it doesn't exist.*
 
 ### 3. EXECUTE: The Atomic Loop
 Once you have \`ready\` tasks:
-1.  **CLAIM**: Lock the task so no one else touches it.
+1.  **CLAIM**: Lock the task so no one else touches it. Prefer \`claim_next\`, which picks and locks the most urgent ready task in one step. Call \`register_agent\` with your \`capabilities\` first so you are only offered work you can do.
     \`\`\`json
-    { "command": "claim", "payload": { "task_id": "123" } }
+    { "command": "claim_next", "payload": { "agent_id": "builder-1" } }
     \`\`\`
-2.  **WORK**: Do the actual coding/analysis.
+2.  **WORK**: Do the actual coding/analysis. Claims expire: send a \`heartbeat\` during long work so the task is not released to other agents.
 3.  **UPDATE**:
+    - Only the agent that claimed a task may complete or fail it, so always pass your \`agent_id\`.
     - **Success**: Mark \`completed\`. This automatically unblocks downstream tasks.
-    - **Failure**: Mark \`failed\`. This stops the chain and alerts the user.
+    - **Failure**: Mark \`failed\`. Tasks with attempts left go back to \`pending\`; otherwise every downstream task becomes \`blocked\` until someone runs \`retry\`.
     \`\`\`json
-    { "command": "update", "payload": { "task_id": "123", "status": "completed", "result_summary": "API endpoint created" } }
+    { "command": "update", "payload": { "task_id": "123", "agent_id": "builder-1", "status": "completed", "result_summary": "API endpoint created" } }
     \`\`\`
 `;
 
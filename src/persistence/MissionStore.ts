@@ -1,13 +1,84 @@
-import { Database } from "bun:sqlite";
-import { mkdirSync, existsSync, readFileSync } from "fs";
+import { Database, Statement } from "bun:sqlite";
+import { mkdirSync, existsSync } from "fs";
 import { join, dirname } from "path";
-import { Mission, Task, Dependency, MissionStatus, TaskStatus } from "../types";
-import { TaskSchema } from "../types/schemas";
-import { MissionNotFoundError, TaskNotFoundError } from "../types/errors";
+import { Mission, Task, Dependency, MissionStatus, TaskStatus, TaskEvent, ReadyTaskFilters, EditTaskInput, Agent, TaskQuery, TaskSort } from "../types";
+import { TaskSchema, TaskStatusSchema } from "../types/schemas";
+import { MissionNotFoundError, TaskNotFoundError, DatabaseBusyError } from "../types/errors";
+import { runMigrations, getSchemaVersion } from "./migrations";
+
+/**
+ * Recomputes `unfinished_blockers` from scratch: unfinished blockers of each
+ * task plus those of all its ancestors.
+ */
+const EFFECTIVE_BLOCKERS_CTE = `
+      WITH RECURSIVE effective(id, total) AS (
+        SELECT t.id, (
+          SELECT COUNT(*) FROM dependencies d JOIN tasks b ON b.id = d.blocker_id
+          WHERE d.blocked_id = t.id AND b.status != 'completed'
+        )
+        FROM tasks t WHERE t.parent_id IS NULL
+        UNION ALL
+        SELECT c.id, e.total + (
+          SELECT COUNT(*) FROM dependencies d JOIN tasks b ON b.id = d.blocker_id
+          WHERE d.blocked_id = c.id AND b.status != 'completed'
+        )
+        FROM tasks c JOIN effective e ON c.parent_id = e.id
+      )`;
+
+/** How long one statement waits for another process's lock before SQLITE_BUSY. */
+const BUSY_TIMEOUT_MS = 5000;
+/** Whole-transaction retries after SQLITE_BUSY, and the first backoff step. */
+const BUSY_RETRIES = 5;
+const BUSY_BACKOFF_MS = 20;
+
+/** Selects a task's labels as a JSON array; use with a `tasks t` alias. */
+const LABELS_COLUMN = `(SELECT json_group_array(label) FROM (SELECT label FROM task_labels WHERE task_id = t.id ORDER BY label)) AS labels`;
+
+/** Columns each sort orders by; the last ones break ties and make cursors unique. */
+export const TASK_SORT_KEYS: Record<TaskSort, (keyof Task)[]> = {
+    priority: ['priority', 'created_at', 'id'],
+    created_at: ['created_at', 'id'],
+    updated_at: ['updated_at', 'id'],
+    title: ['title', 'id'],
+};
+
+export interface BlockerCountMismatch {
+    task_id: string;
+    stored: number;
+    actual: number;
+}
+
+export interface MissionSummary {
+    total: number;
+    by_status: Record<TaskStatus, { count: number; percent: number }>;
+    /** Leaf tasks that can be claimed now. */
+    ready: number;
+    /** Leaf tasks that are blocked or still waiting on dependencies. */
+    blocked: number;
+    active_agents: { agent_id: string; task_ids: string[]; last_seen_at: string | null }[];
+    oldest_in_progress: Task[];
+    recent_completions: Task[];
+    failed: Task[];
+}
+
+export interface TaskSearchHit {
+    task: Task;
+    /** Best-matching fragment with the matched terms wrapped in `**`. */
+    snippet: string;
+    /** BM25 relevance; higher is better. */
+    score: number;
+}
+
+export type TransactionMode = 'deferred' | 'immediate';
+
+const isBusyError = (error: unknown): boolean =>
+    (error as { code?: string } | null)?.code?.startsWith('SQLITE_BUSY') === true;
 
 export class MissionStore {
     private db: Database;
     private dbPath: string;
+    private statements = new Map<string, Statement>();
+    private dataVersion = 0;
 
     private safeParse(str: string | null): any {
         try {
@@ -17,12 +88,29 @@ export class MissionStore {
         }
     }
 
+    private toTask(row: any): Task {
+        const capabilities = this.safeParse(row.required_capabilities);
+        const task: Task = {
+            ...row,
+            metadata: this.safeParse(row.metadata),
+            required_capabilities: Array.isArray(capabilities) ? capabilities : []
+        };
+        if (typeof row.labels === 'string') task.labels = JSON.parse(row.labels);
+        return task;
+    }
+
     constructor(dbPath: string = ".opencode/mission-control/mission.sqlite") {
         this.dbPath = dbPath;
         this.ensureDirectory();
         this.db = new Database(this.dbPath, { create: true });
         this.configurePragma();
-        this.migrate();
+        try {
+            this.migrate();
+        } catch (e) {
+            this.db.close();
+            throw e;
+        }
+        this.dataVersion = this.readDataVersion();
     }
 
     private ensureDirectory() {
@@ -33,27 +121,74 @@ export class MissionStore {
     }
 
     private configurePragma() {
+        // Set first: switching to WAL itself needs a lock other processes may hold.
+        this.db.exec(`PRAGMA busy_timeout = ${BUSY_TIMEOUT_MS};`);
         this.db.exec("PRAGMA journal_mode = WAL;");
         this.db.exec("PRAGMA synchronous = NORMAL;");
         this.db.exec("PRAGMA foreign_keys = ON;");
     }
 
     private migrate() {
-        const schemaPath = new URL('./schema.sql', import.meta.url).pathname;
-        const schema = readFileSync(schemaPath, "utf-8");
-        const statements = schema.split(';').map(s => s.trim()).filter(s => s.length > 0);
-        for (const stmt of statements) {
-            this.db.exec(stmt);
+        runMigrations(this.db);
+    }
+
+    /**
+     * Compiles each distinct SQL string once per store and reuses the statement.
+     */
+    private prepare(sql: string): Statement {
+        let stmt = this.statements.get(sql);
+        if (!stmt) {
+            stmt = this.db.prepare(sql);
+            this.statements.set(sql, stmt);
         }
+        return stmt;
     }
 
-    runTransaction<T>(callback: () => T): T {
+    getSchemaVersion(): number {
+        return getSchemaVersion(this.db);
+    }
+
+    /**
+     * Runs `callback` atomically. Nested calls join the outer transaction.
+     * Other processes may share the database file, so a top-level transaction
+     * that hits SQLITE_BUSY (a lock wait past the busy timeout, or a read
+     * snapshot gone stale before the first write) is rolled back and rerun
+     * with jittered backoff. `immediate` takes the write lock up front, for
+     * read-check-write sequences such as claims that must not interleave.
+     */
+    runTransaction<T>(callback: () => T, mode: TransactionMode = 'deferred'): T {
         const transaction = this.db.transaction(callback);
-        return transaction();
+        if (this.db.inTransaction) return transaction();
+
+        for (let attempt = 1; ; attempt++) {
+            try {
+                return mode === 'immediate' ? transaction.immediate() : transaction();
+            } catch (e) {
+                if (!isBusyError(e)) throw e;
+                if (attempt > BUSY_RETRIES) throw new DatabaseBusyError(attempt);
+                Bun.sleepSync(BUSY_BACKOFF_MS * 2 ** (attempt - 1) * (0.5 + Math.random()));
+            }
+        }
+    }
+
+    /**
+     * Reports whether another connection committed to the database since
+     * the previous call (or since the store was opened). Writes made through
+     * this store do not count. Cheap enough to poll.
+     */
+    hasExternalChanges(): boolean {
+        const current = this.readDataVersion();
+        const changed = current !== this.dataVersion;
+        this.dataVersion = current;
+        return changed;
+    }
+
+    private readDataVersion(): number {
+        return (this.prepare("PRAGMA data_version").get() as { data_version: number }).data_version;
     }
 
     createMission(mission: Mission): void {
-        const stmt = this.db.prepare(`
+        const stmt = this.prepare(`
       INSERT INTO missions (id, title, status, created_at)
       VALUES ($id, $title, $status, $created_at)
     `);
@@ -66,14 +201,73 @@ export class MissionStore {
     }
 
     getMission(id: string): Mission | null {
-        const stmt = this.db.prepare("SELECT * FROM missions WHERE id = ?");
+        const stmt = this.prepare("SELECT * FROM missions WHERE id = ?");
         return stmt.get(id) as Mission | null;
     }
 
+    getMissions(includeArchived: boolean = false): (Mission & { task_count: number; completed_count: number })[] {
+        const stmt = this.prepare(`
+      SELECT m.*, COUNT(t.id) AS task_count, COALESCE(SUM(t.status = 'completed'), 0) AS completed_count
+      FROM missions m
+      LEFT JOIN tasks t ON t.mission_id = m.id
+      WHERE $include_archived = 1 OR m.status != 'archived'
+      GROUP BY m.id
+      ORDER BY m.created_at, m.id
+    `);
+        return stmt.all({ $include_archived: includeArchived ? 1 : 0 }) as (Mission & { task_count: number; completed_count: number })[];
+    }
+
+    updateMission(id: string, fields: { title?: string; status?: MissionStatus }): void {
+        const stmt = this.prepare(`
+      UPDATE missions SET title = COALESCE($title, title), status = COALESCE($status, status) WHERE id = $id
+    `);
+        stmt.run({ $id: id, $title: fields.title ?? null, $status: fields.status ?? null });
+    }
+
+    countUnfinishedTasks(missionId: string): { total: number; unfinished: number } {
+        const stmt = this.prepare(`
+      SELECT COUNT(*) AS total, COALESCE(SUM(status != 'completed'), 0) AS unfinished FROM tasks WHERE mission_id = ?
+    `);
+        return stmt.get(missionId) as { total: number; unfinished: number };
+    }
+
+    /**
+     * Shifts `unfinished_blockers` for the given tasks and everything beneath
+     * them. An id listed twice is shifted twice.
+     */
+    private adjustBlockerCounts(blockedIds: string[], delta: number): void {
+        if (blockedIds.length === 0) return;
+        const stmt = this.prepare(`
+      WITH RECURSIVE subtree(id) AS (
+        SELECT value FROM json_each($ids)
+        UNION ALL
+        SELECT t.id FROM tasks t JOIN subtree s ON t.parent_id = s.id
+      )
+      UPDATE tasks
+      SET unfinished_blockers = unfinished_blockers + $delta * (SELECT COUNT(*) FROM subtree WHERE subtree.id = tasks.id)
+      WHERE id IN (SELECT id FROM subtree)
+    `);
+        stmt.run({ $ids: JSON.stringify(blockedIds), $delta: delta });
+    }
+
+    private getStatus(id: string): TaskStatus | null {
+        const row = this.prepare("SELECT status FROM tasks WHERE id = ?").get(id) as { status: TaskStatus } | null;
+        return row ? row.status : null;
+    }
+
+    /**
+     * Keeps dependents' counters in step when a task enters or leaves `completed`.
+     */
+    private onStatusChange(id: string, from: TaskStatus | null, to: TaskStatus): void {
+        if (from === null || (from === 'completed') === (to === 'completed')) return;
+        this.adjustBlockerCounts(this.getDependents(id), to === 'completed' ? -1 : 1);
+    }
+
     createTask(task: Task): void {
-        const stmt = this.db.prepare(`
-      INSERT INTO tasks (id, mission_id, title, description, status, priority, assignee, created_at, updated_at, acceptance_criteria, metadata)
-      VALUES ($id, $mission_id, $title, $description, $status, $priority, $assignee, $created_at, $updated_at, $acceptance_criteria, $metadata)
+        const stmt = this.prepare(`
+      INSERT INTO tasks (id, mission_id, title, description, status, priority, assignee, created_at, updated_at, acceptance_criteria, metadata, lease_expires_at, max_attempts, attempts, blocked_by, parent_id, required_capabilities, unfinished_blockers)
+      VALUES ($id, $mission_id, $title, $description, $status, $priority, $assignee, $created_at, $updated_at, $acceptance_criteria, $metadata, $lease_expires_at, $max_attempts, $attempts, $blocked_by, $parent_id, $required_capabilities,
+              COALESCE((SELECT unfinished_blockers FROM tasks WHERE id = $parent_id), 0))
     `);
         stmt.run({
             $id: task.id,
@@ -86,25 +280,48 @@ export class MissionStore {
             $created_at: task.created_at,
             $updated_at: task.updated_at,
             $acceptance_criteria: task.acceptance_criteria || null,
-            $metadata: JSON.stringify(task.metadata)
+            $metadata: JSON.stringify(task.metadata),
+            $lease_expires_at: task.lease_expires_at ?? null,
+            $max_attempts: task.max_attempts ?? 1,
+            $attempts: task.attempts ?? 0,
+            $blocked_by: task.blocked_by ?? null,
+            $parent_id: task.parent_id ?? null,
+            $required_capabilities: JSON.stringify(task.required_capabilities ?? [])
         });
+        if (task.labels) this.setLabels(task.id, task.labels);
+    }
+
+    setLabels(taskId: string, labels: string[]): void {
+        this.prepare("DELETE FROM task_labels WHERE task_id = ?").run(taskId);
+        const insert = this.prepare("INSERT OR IGNORE INTO task_labels (task_id, label) VALUES (?, ?)");
+        labels.forEach(label => insert.run(taskId, label));
     }
 
     getTask(id: string): Task | null {
-        const stmt = this.db.prepare("SELECT * FROM tasks WHERE id = ?");
+        const stmt = this.prepare(`SELECT t.*, ${LABELS_COLUMN} FROM tasks t WHERE t.id = ?`);
         const task = stmt.get(id) as any;
         if (!task) return null;
 
-        return {
-            ...task,
-            metadata: this.safeParse(task.metadata)
-        };
+        return this.toTask(task);
     }
 
-    updateTaskStatus(id: string, status: TaskStatus, assignee: string | null = null, metadata: string | null = null): void {
-        const stmt = this.db.prepare(`
+    /**
+     * `metadataPatch` is a JSON object merged into the stored metadata in SQL
+     * (RFC 7396: null values remove keys), so concurrent writers never drop
+     * each other's keys.
+     */
+    updateTaskStatus(id: string, status: TaskStatus, assignee: string | null = null, metadataPatch: string | null = null): void {
+        const previous = this.getStatus(id);
+        const stmt = this.prepare(`
       UPDATE tasks 
-      SET status = $status, assignee = $assignee, updated_at = $updated_at, metadata = COALESCE($metadata, metadata)
+      SET status = $status, assignee = $assignee, updated_at = $updated_at,
+          metadata = CASE
+            WHEN $metadata IS NULL THEN metadata
+            WHEN json_valid(metadata) THEN json_patch(metadata, $metadata)
+            ELSE json_patch('{}', $metadata)
+          END,
+          lease_expires_at = CASE WHEN $status = 'in_progress' THEN lease_expires_at ELSE NULL END,
+          blocked_by = CASE WHEN $status = 'blocked' THEN blocked_by ELSE NULL END
       WHERE id = $id
     `);
         stmt.run({
@@ -112,12 +329,92 @@ export class MissionStore {
             $status: status,
             $assignee: assignee,
             $updated_at: new Date().toISOString(),
-            $metadata: metadata
+            $metadata: metadataPatch
         });
+        this.onStatusChange(id, previous, status);
+    }
+
+    /** Merges `patch` into the stored metadata in SQL; null values remove keys. */
+    mergeTaskMetadata(id: string, patch: Record<string, unknown>): void {
+        this.prepare(`
+      UPDATE tasks SET updated_at = $updated_at,
+          metadata = CASE WHEN json_valid(metadata) THEN json_patch(metadata, $patch) ELSE json_patch('{}', $patch) END
+      WHERE id = $id
+    `).run({ $id: id, $updated_at: new Date().toISOString(), $patch: JSON.stringify(patch) });
+    }
+
+    updateTaskFields(id: string, fields: EditTaskInput): void {
+        if (fields.labels !== undefined) this.setLabels(id, fields.labels);
+        const columns = (['title', 'description', 'priority', 'acceptance_criteria', 'required_capabilities'] as const)
+            .filter(column => fields[column] !== undefined);
+
+        // Always touch the row, so label-only edits bump the version too.
+        const assignments = [...columns.map(column => `${column} = $${column}`), 'updated_at = $updated_at'].join(', ');
+        const stmt = this.prepare(`UPDATE tasks SET ${assignments} WHERE id = $id`);
+        const params: Record<string, string | number | null> = { $id: id, $updated_at: new Date().toISOString() };
+        for (const column of columns) {
+            const value = fields[column];
+            params[`$${column}`] = Array.isArray(value) ? JSON.stringify(value) : value ?? null;
+        }
+        stmt.run(params);
+    }
+
+    deleteTask(id: string): void {
+        const gone = [id, ...this.getDescendantIds(id)];
+        const released = this.prepare(`
+      SELECT d.blocked_id FROM dependencies d
+      JOIN tasks b ON b.id = d.blocker_id
+      WHERE d.blocker_id IN (SELECT value FROM json_each(?)) AND b.status != 'completed'
+    `).all(JSON.stringify(gone)) as { blocked_id: string }[];
+        this.adjustBlockerCounts(released.map(r => r.blocked_id), -1);
+
+        const stmt = this.prepare("DELETE FROM tasks WHERE id = ?");
+        stmt.run(id);
+    }
+
+    /**
+     * Removes every task of a mission along with its dependencies and labels.
+     * No counters need adjusting: edges never cross missions.
+     */
+    deleteTasksByMission(missionId: string): void {
+        this.prepare("DELETE FROM tasks WHERE mission_id = ?").run(missionId);
+    }
+
+    blockTask(id: string, rootId: string): void {
+        const previous = this.getStatus(id);
+        const stmt = this.prepare(`
+      UPDATE tasks
+      SET status = 'blocked', assignee = NULL, lease_expires_at = NULL, blocked_by = $root_id, updated_at = $updated_at
+      WHERE id = $id
+    `);
+        stmt.run({ $id: id, $root_id: rootId, $updated_at: new Date().toISOString() });
+        this.onStatusChange(id, previous, 'blocked');
+    }
+
+    setAttempts(id: string, attempts: number): void {
+        const stmt = this.prepare("UPDATE tasks SET attempts = $attempts WHERE id = $id");
+        stmt.run({ $id: id, $attempts: attempts });
+    }
+
+    setLease(id: string, expiresAt: string | null): void {
+        const stmt = this.prepare("UPDATE tasks SET lease_expires_at = $expires_at WHERE id = $id");
+        stmt.run({ $id: id, $expires_at: expiresAt });
+    }
+
+    getExpiredLeases(missionId: string, now: string): Task[] {
+        const stmt = this.prepare(`
+      SELECT * FROM tasks
+      WHERE mission_id = $missionId
+        AND status = 'in_progress'
+        AND lease_expires_at IS NOT NULL
+        AND lease_expires_at <= $now
+    `);
+        const tasks = stmt.all({ $missionId: missionId, $now: now }) as any[];
+        return tasks.map(t => this.toTask(t));
     }
 
     addDependency(dependency: Dependency): void {
-        const stmt = this.db.prepare(`
+        const stmt = this.prepare(`
       INSERT INTO dependencies (blocker_id, blocked_id, mission_id)
       VALUES ($blocker_id, $blocked_id, $mission_id)
     `);
@@ -126,18 +423,229 @@ export class MissionStore {
             $blocked_id: dependency.blocked_id,
             $mission_id: dependency.mission_id
         });
+        if (this.getStatus(dependency.blocker_id) !== 'completed') {
+            this.adjustBlockerCounts([dependency.blocked_id], 1);
+        }
+        this.bumpVersion(dependency.blocked_id);
+    }
+
+    removeDependency(blockerId: string, blockedId: string): boolean {
+        const stmt = this.prepare("DELETE FROM dependencies WHERE blocker_id = $blocker_id AND blocked_id = $blocked_id");
+        const result = stmt.run({ $blocker_id: blockerId, $blocked_id: blockedId });
+        if (result.changes === 0) return false;
+        if (this.getStatus(blockerId) !== 'completed') {
+            this.adjustBlockerCounts([blockedId], -1);
+        }
+        this.bumpVersion(blockedId);
+        return true;
+    }
+
+    /**
+     * An edge belongs to the task it blocks, so adding or removing one bumps
+     * that task's version. `updated_at` is left alone: exports carry it.
+     */
+    private bumpVersion(id: string): void {
+        this.prepare("UPDATE tasks SET version = version + 1 WHERE id = ?").run(id);
+    }
+
+    /**
+     * Integrity check: recomputes every task's unfinished blocker count and
+     * reports the ones whose stored counter drifted. `repair` rewrites them.
+     */
+    checkBlockerCounts(repair: boolean = false): BlockerCountMismatch[] {
+        const mismatches = this.prepare(`${EFFECTIVE_BLOCKERS_CTE}
+      SELECT t.id AS task_id, t.unfinished_blockers AS stored, e.total AS actual
+      FROM effective e JOIN tasks t ON t.id = e.id
+      WHERE t.unfinished_blockers != e.total
+    `).all() as BlockerCountMismatch[];
+
+        if (repair && mismatches.length > 0) {
+            const fix = this.prepare("UPDATE tasks SET unfinished_blockers = $actual WHERE id = $id");
+            this.runTransaction(() => {
+                mismatches.forEach(m => fix.run({ $id: m.task_id, $actual: m.actual }));
+            });
+        }
+        return mismatches;
     }
 
     getDependencies(taskId: string): string[] {
-        const stmt = this.db.prepare("SELECT blocker_id FROM dependencies WHERE blocked_id = ?");
+        const stmt = this.prepare("SELECT blocker_id FROM dependencies WHERE blocked_id = ?");
         return stmt.all(taskId).map((row: any) => row.blocker_id);
     }
 
+    getDependenciesByMission(missionId: string): Dependency[] {
+        const stmt = this.prepare("SELECT blocker_id, blocked_id, mission_id FROM dependencies WHERE mission_id = ?");
+        return stmt.all(missionId) as Dependency[];
+    }
+
+    /**
+     * Every edge of a mission with the blocker's current state, in one query.
+     */
+    getBlockerLinks(missionId: string): { blocked_id: string; id: string; title: string; status: TaskStatus; assignee: string | null }[] {
+        const stmt = this.prepare(`
+      SELECT d.blocked_id, b.id, b.title, b.status, b.assignee
+      FROM dependencies d
+      JOIN tasks b ON b.id = d.blocker_id
+      WHERE d.mission_id = ?
+      ORDER BY b.priority, b.created_at
+    `);
+        return stmt.all(missionId) as { blocked_id: string; id: string; title: string; status: TaskStatus; assignee: string | null }[];
+    }
+
     getDependents(taskId: string): string[] {
-        const stmt = this.db.prepare("SELECT blocked_id FROM dependencies WHERE blocker_id = ?");
+        const stmt = this.prepare("SELECT blocked_id FROM dependencies WHERE blocker_id = ?");
         return stmt.all(taskId).map((row: any) => row.blocked_id);
     }
 
+    addTaskEvent(event: Omit<TaskEvent, 'id'>): void {
+        const stmt = this.prepare(`
+      INSERT INTO task_events (task_id, mission_id, event_type, actor, old_value, new_value, created_at)
+      VALUES ($task_id, $mission_id, $event_type, $actor, $old_value, $new_value, $created_at)
+    `);
+        stmt.run({
+            $task_id: event.task_id,
+            $mission_id: event.mission_id,
+            $event_type: event.event_type,
+            $actor: event.actor,
+            $old_value: event.old_value === undefined ? null : JSON.stringify(event.old_value),
+            $new_value: event.new_value === undefined ? null : JSON.stringify(event.new_value),
+            $created_at: event.created_at
+        });
+    }
+
+    getTaskEvents(taskId: string): TaskEvent[] {
+        const stmt = this.prepare("SELECT * FROM task_events WHERE task_id = ? ORDER BY id ASC");
+        const events = stmt.all(taskId) as any[];
+        return events.map(e => ({
+            ...e,
+            old_value: e.old_value === null ? null : this.safeParse(e.old_value),
+            new_value: e.new_value === null ? null : this.safeParse(e.new_value)
+        }));
+    }
+
+    /**
+     * Time of the last event that moved the task into its current status.
+     */
+    getStatusChangedAt(taskId: string): string | null {
+        const stmt = this.prepare(`
+      SELECT created_at FROM task_events
+      WHERE task_id = ? AND event_type IN ('created', 'claimed', 'status_changed', 'lease_expired')
+      ORDER BY id DESC LIMIT 1
+    `);
+        const row = stmt.get(taskId) as { created_at: string } | null;
+        return row ? row.created_at : null;
+    }
+
+    getTasksByIds(ids: string[]): Task[] {
+        const stmt = this.prepare(`
+      SELECT t.*, ${LABELS_COLUMN} FROM tasks t JOIN json_each($ids) j ON j.value = t.id ORDER BY j.key
+    `);
+        const tasks = stmt.all({ $ids: JSON.stringify(ids) }) as any[];
+        return tasks.map(t => this.toTask(t));
+    }
+
+    getChildren(taskId: string): Task[] {
+        const stmt = this.prepare(`SELECT t.*, ${LABELS_COLUMN} FROM tasks t WHERE t.parent_id = ? ORDER BY t.created_at ASC`);
+        const tasks = stmt.all(taskId) as any[];
+        return tasks.map(t => this.toTask(t));
+    }
+
+    getAncestorIds(taskId: string): string[] {
+        const query = `
+            WITH RECURSIVE lineage(id, depth) AS (
+                SELECT parent_id, 1 FROM tasks WHERE id = $taskId AND parent_id IS NOT NULL
+                UNION ALL
+                SELECT t.parent_id, l.depth + 1 FROM tasks t
+                JOIN lineage l ON t.id = l.id
+                WHERE t.parent_id IS NOT NULL
+            )
+            SELECT id FROM lineage ORDER BY depth ASC;
+        `;
+        const stmt = this.prepare(query);
+        return stmt.all({ $taskId: taskId }).map((row: any) => row.id);
+    }
+
+    /**
+     * Unfinished blockers of a task, including those declared on any of its ancestors.
+     */
+    getUnfinishedBlockers(taskId: string): string[] {
+        const query = `
+            WITH RECURSIVE lineage(id) AS (
+                SELECT $taskId
+                UNION ALL
+                SELECT t.parent_id FROM tasks t
+                JOIN lineage l ON t.id = l.id
+                WHERE t.parent_id IS NOT NULL
+            )
+            SELECT DISTINCT d.blocker_id FROM lineage l
+            JOIN dependencies d ON d.blocked_id = l.id
+            JOIN tasks blocker ON blocker.id = d.blocker_id
+            WHERE blocker.status != 'completed';
+        `;
+        const stmt = this.prepare(query);
+        return stmt.all({ $taskId: taskId }).map((row: any) => row.blocker_id);
+    }
+
+    /**
+     * Every task gated by this one: its dependents, their dependents, and the
+     * subtasks of any of them (dependencies on a parent apply to its children).
+     */
+    getDownstreamTaskIds(taskId: string): string[] {
+        const query = `
+            WITH RECURSIVE downstream(id, depth) AS (
+                SELECT blocked_id, 1 FROM dependencies WHERE blocker_id = $taskId
+                UNION
+                SELECT d.blocked_id, ds.depth + 1 FROM dependencies d
+                JOIN downstream ds ON d.blocker_id = ds.id
+                UNION
+                SELECT c.id, ds.depth + 1 FROM tasks c
+                JOIN downstream ds ON c.parent_id = ds.id
+            )
+            SELECT id FROM downstream GROUP BY id ORDER BY MAX(depth) ASC;
+        `;
+        const stmt = this.prepare(query);
+        return stmt.all({ $taskId: taskId }).map((row: any) => row.id);
+    }
+
+    /**
+     * First failed task gating this one, following dependency edges declared on
+     * the task or on any of its parents. A failed parent alone does not count.
+     */
+    findFailedAncestor(taskId: string): string | null {
+        const query = `
+            WITH RECURSIVE upstream(id, via_dependency) AS (
+                SELECT $taskId, 0
+                UNION
+                SELECT t.parent_id, 0 FROM tasks t
+                JOIN upstream u ON t.id = u.id
+                WHERE t.parent_id IS NOT NULL
+                UNION
+                SELECT d.blocker_id, 1 FROM dependencies d
+                JOIN upstream u ON d.blocked_id = u.id
+            )
+            SELECT t.id FROM upstream u JOIN tasks t ON t.id = u.id
+            WHERE u.via_dependency = 1 AND t.status = 'failed'
+            LIMIT 1;
+        `;
+        const stmt = this.prepare(query);
+        const row = stmt.get({ $taskId: taskId }) as { id: string } | null;
+        return row ? row.id : null;
+    }
+
+    getDescendantIds(taskId: string): string[] {
+        const query = `
+            WITH RECURSIVE descendants(id) AS (
+                SELECT id FROM tasks WHERE parent_id = $taskId
+                UNION
+                SELECT t.id FROM tasks t
+                JOIN descendants d ON t.parent_id = d.id
+            )
+            SELECT id FROM descendants;
+        `;
+        const stmt = this.prepare(query);
+        return stmt.all({ $taskId: taskId }).map((row: any) => row.id);
+    }
+
     hasCycle(blockerId: string, blockedId: string): boolean {
         if (blockerId === blockedId) return true;
 
@@ -151,47 +659,224 @@ export class MissionStore {
             SELECT 1 FROM ancestors WHERE id = $blockedId LIMIT 1;
         `;
 
-        const stmt = this.db.prepare(query);
+        const stmt = this.prepare(query);
         const result = stmt.get({ $blockerId: blockerId, $blockedId: blockedId });
         return result !== null;
     }
 
-    getReadyTasks(missionId: string, limit: number = 10): Task[] {
+    getReadyTasks(missionId: string, limit: number = 10, filters: ReadyTaskFilters = {}): Task[] {
         const query = `
-      SELECT t.* 
+      SELECT t.*, ${LABELS_COLUMN}
       FROM tasks t
       WHERE t.mission_id = $missionId
         AND t.status = 'pending'
-        AND NOT EXISTS (
-          SELECT 1 
-          FROM dependencies d
-          JOIN tasks blocker ON d.blocker_id = blocker.id
-          WHERE d.blocked_id = t.id
-            AND blocker.status != 'completed'
-        )
+        AND t.unfinished_blockers = 0
+        AND NOT EXISTS (SELECT 1 FROM tasks child WHERE child.parent_id = t.id)
+        AND ($minPriority IS NULL OR t.priority >= $minPriority)
+        AND ($maxPriority IS NULL OR t.priority <= $maxPriority)
+        AND t.id NOT IN (SELECT value FROM json_each($excludeIds))
+        AND ($capabilities IS NULL OR NOT EXISTS (
+          SELECT 1 FROM json_each(t.required_capabilities) rc
+          WHERE rc.value NOT IN (SELECT value FROM json_each($capabilities))
+        ))
       ORDER BY t.priority ASC, t.created_at ASC
       LIMIT $limit
     `;
 
-        const stmt = this.db.prepare(query);
-        const tasks = stmt.all({ $missionId: missionId, $limit: limit }) as any[];
+        const stmt = this.prepare(query);
+        const tasks = stmt.all({
+            $missionId: missionId,
+            $limit: limit,
+            $minPriority: filters.min_priority ?? null,
+            $maxPriority: filters.max_priority ?? null,
+            $excludeIds: JSON.stringify(filters.exclude_task_ids ?? []),
+            $capabilities: filters.capabilities ? JSON.stringify(filters.capabilities) : null
+        }) as any[];
 
-        return tasks.map(t => ({
-            ...t,
-            metadata: this.safeParse(t.metadata)
-        }));
+        return tasks.map(t => this.toTask(t));
+    }
+
+    /**
+     * Progress figures for a mission, aggregated in SQL. Task lists are capped at `limit`.
+     */
+    getMissionSummary(missionId: string, limit: number = 5): MissionSummary {
+        const statusRows = this.prepare(`
+      SELECT status, COUNT(*) AS count, ROUND(100.0 * COUNT(*) / SUM(COUNT(*)) OVER (), 1) AS percent
+      FROM tasks WHERE mission_id = ? GROUP BY status
+    `).all(missionId) as { status: TaskStatus; count: number; percent: number }[];
+
+        const by_status = Object.fromEntries(
+            TaskStatusSchema.options.map(status => [status, { count: 0, percent: 0 }])
+        ) as MissionSummary['by_status'];
+        let total = 0;
+        for (const row of statusRows) {
+            by_status[row.status] = { count: row.count, percent: row.percent };
+            total += row.count;
+        }
+
+        const readiness = this.prepare(`
+      SELECT
+        COALESCE(SUM(t.status = 'pending' AND t.unfinished_blockers = 0), 0) AS ready,
+        COALESCE(SUM(t.status = 'blocked' OR (t.status = 'pending' AND t.unfinished_blockers > 0)), 0) AS blocked
+      FROM tasks t
+      WHERE t.mission_id = ?
+        AND NOT EXISTS (SELECT 1 FROM tasks child WHERE child.parent_id = t.id)
+    `).get(missionId) as { ready: number; blocked: number };
+
+        const agentRows = this.prepare(`
+      SELECT t.assignee AS agent_id, json_group_array(t.id) AS task_ids, a.last_seen_at
+      FROM tasks t
+      LEFT JOIN agents a ON a.id = t.assignee
+      WHERE t.mission_id = ? AND t.status IN ('in_progress', 'review') AND t.assignee IS NOT NULL
+      GROUP BY t.assignee
+      ORDER BY t.assignee
+    `).all(missionId) as any[];
+
+        const tasksWhere = (condition: string, order: string): Task[] => {
+            const rows = this.prepare(`
+      SELECT * FROM tasks t
+      WHERE t.mission_id = $missionId AND ${condition}
+      ORDER BY ${order}
+      LIMIT $limit
+    `).all({ $missionId: missionId, $limit: limit }) as any[];
+            return rows.map(row => this.toTask(row));
+        };
+
+        return {
+            total,
+            by_status,
+            ready: readiness.ready,
+            blocked: readiness.blocked,
+            active_agents: agentRows.map(row => ({ ...row, task_ids: JSON.parse(row.task_ids) })),
+            oldest_in_progress: tasksWhere(
+                "t.status IN ('in_progress', 'review') AND NOT EXISTS (SELECT 1 FROM tasks child WHERE child.parent_id = t.id)",
+                "t.updated_at ASC"
+            ),
+            recent_completions: tasksWhere("t.status = 'completed'", "t.updated_at DESC"),
+            failed: tasksWhere("t.status = 'failed'", "t.updated_at DESC")
+        };
     }
 
     getTasksByMission(missionId: string): Task[] {
-        const stmt = this.db.prepare("SELECT * FROM tasks WHERE mission_id = ?");
+        // rowid order is insertion order, unlike created_at which ties within a millisecond.
+        const stmt = this.prepare(`SELECT t.*, ${LABELS_COLUMN} FROM tasks t WHERE t.mission_id = ? ORDER BY t.rowid`);
         const tasks = stmt.all(missionId) as any[];
-        return tasks.map(t => ({
-            ...t,
-            metadata: this.safeParse(t.metadata)
+        return tasks.map(t => this.toTask(t));
+    }
+
+    /**
+     * Filtered, sorted page of a mission's tasks. `after` holds the sort-key
+     * values of the last task of the previous page; a negative limit means no limit.
+     */
+    queryTasks(missionId: string, query: TaskQuery, after: (string | number)[] | null = null): Task[] {
+        const keys = TASK_SORT_KEYS[query.sort];
+        const direction = query.order === 'desc' ? 'DESC' : 'ASC';
+        const columns = keys.map(k => `t.${k}`).join(', ');
+        const cursor = keys.map((_, i) => `json_extract($after, '$[${i}]')`).join(', ');
+
+        const stmt = this.prepare(`
+      SELECT t.*, ${LABELS_COLUMN}
+      FROM tasks t
+      WHERE t.mission_id = $missionId
+        AND ($statuses IS NULL OR t.status IN (SELECT value FROM json_each($statuses)))
+        AND ($minPriority IS NULL OR t.priority >= $minPriority)
+        AND ($maxPriority IS NULL OR t.priority <= $maxPriority)
+        AND ($assignee IS NULL OR t.assignee = $assignee)
+        AND ($labels IS NULL OR json_array_length($labels) = (
+          SELECT COUNT(*) FROM task_labels l
+          WHERE l.task_id = t.id AND l.label IN (SELECT value FROM json_each($labels))
+        ))
+        AND ($createdAfter IS NULL OR t.created_at >= $createdAfter)
+        AND ($createdBefore IS NULL OR t.created_at < $createdBefore)
+        AND ($updatedAfter IS NULL OR t.updated_at >= $updatedAfter)
+        AND ($updatedBefore IS NULL OR t.updated_at < $updatedBefore)
+        AND ($text IS NULL OR t.title LIKE $text ESCAPE '\\' OR t.description LIKE $text ESCAPE '\\'
+          OR t.acceptance_criteria LIKE $text ESCAPE '\\')
+        AND ($after IS NULL OR (${columns}) ${direction === 'ASC' ? '>' : '<'} (${cursor}))
+      ORDER BY ${keys.map(k => `t.${k} ${direction}`).join(', ')}
+      LIMIT $limit
+    `);
+        const tasks = stmt.all({
+            $missionId: missionId,
+            $statuses: query.statuses ? JSON.stringify(query.statuses) : null,
+            $minPriority: query.min_priority ?? null,
+            $maxPriority: query.max_priority ?? null,
+            $assignee: query.assignee ?? null,
+            $labels: query.labels ? JSON.stringify([...new Set(query.labels)]) : null,
+            $createdAfter: query.created_after ?? null,
+            $createdBefore: query.created_before ?? null,
+            $updatedAfter: query.updated_after ?? null,
+            $updatedBefore: query.updated_before ?? null,
+            $text: query.text ? `%${query.text.replace(/[\\%_]/g, c => `\\${c}`)}%` : null,
+            $after: after ? JSON.stringify(after) : null,
+            $limit: query.limit
+        }) as any[];
+        return tasks.map(t => this.toTask(t));
+    }
+
+    /**
+     * Ranks tasks against an FTS5 `match` expression. Titles weigh most, then
+     * descriptions, then acceptance criteria and result summaries.
+     */
+    searchTasks(match: string, missionId: string | null, limit: number): TaskSearchHit[] {
+        const rows = this.prepare(`
+      SELECT t.*, ${LABELS_COLUMN},
+        snippet(task_search, -1, '**', '**', '…', 12) AS search_snippet,
+        bm25(task_search, 10.0, 4.0, 2.0, 2.0) AS search_rank
+      FROM task_search
+      JOIN tasks t ON t.rowid = task_search.rowid
+      WHERE task_search MATCH $match
+        AND ($missionId IS NULL OR t.mission_id = $missionId)
+      ORDER BY search_rank
+      LIMIT $limit
+    `).all({ $match: match, $missionId: missionId, $limit: limit }) as any[];
+        return rows.map(({ search_snippet, search_rank, ...row }) => ({
+            task: this.toTask(row),
+            snippet: search_snippet,
+            score: -search_rank
         }));
     }
 
+    upsertAgent(agent: Agent): void {
+        const stmt = this.prepare(`
+      INSERT INTO agents (id, capabilities, registered_at, last_seen_at)
+      VALUES ($id, $capabilities, $registered_at, $last_seen_at)
+      ON CONFLICT(id) DO UPDATE SET capabilities = excluded.capabilities, last_seen_at = excluded.last_seen_at
+    `);
+        stmt.run({
+            $id: agent.id,
+            $capabilities: JSON.stringify(agent.capabilities),
+            $registered_at: agent.registered_at,
+            $last_seen_at: agent.last_seen_at
+        });
+    }
+
+    touchAgent(id: string, seenAt: string): void {
+        const stmt = this.prepare("UPDATE agents SET last_seen_at = $seen_at WHERE id = $id");
+        stmt.run({ $id: id, $seen_at: seenAt });
+    }
+
+    getAgent(id: string): Agent | null {
+        const stmt = this.prepare("SELECT * FROM agents WHERE id = ?");
+        const agent = stmt.get(id) as any;
+        if (!agent) return null;
+        return { ...agent, capabilities: this.safeParse(agent.capabilities) };
+    }
+
+    getClaimedTaskIds(agentId: string): string[] {
+        const stmt = this.prepare("SELECT id FROM tasks WHERE assignee = ? AND status IN ('in_progress', 'review')");
+        return stmt.all(agentId).map((row: any) => row.id);
+    }
+
+    getAgents(): Agent[] {
+        const stmt = this.prepare("SELECT * FROM agents ORDER BY last_seen_at DESC");
+        const agents = stmt.all() as any[];
+        return agents.map(a => ({ ...a, capabilities: this.safeParse(a.capabilities) }));
+    }
+
     close() {
+        this.statements.forEach(stmt => stmt.finalize());
+        this.statements.clear();
         this.db.close();
     }
 }
@@ -0,0 +1,82 @@
+import { Database } from "bun:sqlite";
+import { readdirSync, readFileSync } from "fs";
+import { join } from "path";
+import { SchemaVersionError } from "../types/errors";
+
+export interface Migration {
+    version: number;
+    name: string;
+    sql: string;
+}
+
+const MIGRATIONS_DIR = new URL('./migrations/', import.meta.url).pathname;
+const MIGRATION_FILE = /^(\d+)_([\w-]+)\.sql$/;
+
+/**
+ * Loads the ordered list of migrations from `NNN_name.sql` files.
+ * Versions must start at 1 and be contiguous.
+ */
+export function loadMigrations(dir: string = MIGRATIONS_DIR): Migration[] {
+    const migrations = readdirSync(dir)
+        .map(file => ({ file, match: MIGRATION_FILE.exec(file) }))
+        .filter(({ match }) => match !== null)
+        .map(({ file, match }) => ({
+            version: Number(match![1]),
+            name: match![2],
+            sql: readFileSync(join(dir, file), "utf-8")
+        }))
+        .sort((a, b) => a.version - b.version);
+
+    migrations.forEach((m, i) => {
+        if (m.version !== i + 1) {
+            throw new Error(`Migration versions must be contiguous: expected ${i + 1}, found ${m.version} (${m.name})`);
+        }
+    });
+
+    return migrations;
+}
+
+function ensureVersionTable(db: Database) {
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS schema_version (
+            version INTEGER PRIMARY KEY,
+            name TEXT NOT NULL,
+            applied_at TEXT NOT NULL
+        )
+    `);
+}
+
+export function getSchemaVersion(db: Database): number {
+    ensureVersionTable(db);
+    const row = db.prepare("SELECT MAX(version) AS version FROM schema_version").get() as { version: number | null };
+    return row.version ?? 0;
+}
+
+/**
+ * Brings the database up to the latest migration. All pending steps run in a
+ * single transaction, so a failing step leaves the database untouched.
+ * Databases written by a newer build are rejected rather than downgraded.
+ */
+export function runMigrations(db: Database, migrations: Migration[] = loadMigrations()): number {
+    const current = getSchemaVersion(db);
+    const latest = migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+
+    if (current > latest) {
+        throw new SchemaVersionError(current, latest);
+    }
+
+    if (migrations.every(m => m.version <= current)) return current;
+
+    const record = db.prepare("INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)");
+    // Re-read the version under the write lock: another process opening the
+    // same file may have migrated it while this one waited.
+    db.transaction(() => {
+        const applied = getSchemaVersion(db);
+        for (const migration of migrations.filter(m => m.version > applied)) {
+            db.exec(migration.sql);
+            record.run(migration.version, migration.name, new Date().toISOString());
+        }
+    }).immediate();
+
+    return latest;
+}
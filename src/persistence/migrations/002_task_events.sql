@@ -0,0 +1,14 @@
+-- Append-only audit log of task mutations
+CREATE TABLE task_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    task_id TEXT NOT NULL,
+    mission_id TEXT NOT NULL,
+    event_type TEXT NOT NULL,
+    actor TEXT,
+    old_value TEXT,
+    new_value TEXT,
+    created_at TEXT NOT NULL,
+    FOREIGN KEY (mission_id) REFERENCES missions(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_task_events_task_id ON task_events(task_id, id);
@@ -0,0 +1,4 @@
+-- Claims are leases that lapse unless renewed by a heartbeat
+ALTER TABLE tasks ADD COLUMN lease_expires_at TEXT;
+
+CREATE INDEX idx_tasks_lease ON tasks(status, lease_expires_at);
@@ -0,0 +1,4 @@
+-- Parent/child task hierarchy (epics made of subtasks)
+ALTER TABLE tasks ADD COLUMN parent_id TEXT REFERENCES tasks(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_tasks_parent_id ON tasks(parent_id);
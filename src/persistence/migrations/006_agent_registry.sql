@@ -0,0 +1,9 @@
+-- Agent registry and capability-based routing
+CREATE TABLE agents (
+    id TEXT PRIMARY KEY,
+    capabilities TEXT NOT NULL DEFAULT '[]',
+    registered_at TEXT NOT NULL,
+    last_seen_at TEXT NOT NULL
+);
+
+ALTER TABLE tasks ADD COLUMN required_capabilities TEXT NOT NULL DEFAULT '[]';
@@ -0,0 +1,22 @@
+-- Incremental readiness: each task carries the number of unfinished blockers
+-- gating it, counting edges on the task itself and on every ancestor.
+ALTER TABLE tasks ADD COLUMN unfinished_blockers INTEGER NOT NULL DEFAULT 0;
+
+WITH RECURSIVE effective(id, total) AS (
+    SELECT t.id, (
+        SELECT COUNT(*) FROM dependencies d JOIN tasks b ON b.id = d.blocker_id
+        WHERE d.blocked_id = t.id AND b.status != 'completed'
+    )
+    FROM tasks t WHERE t.parent_id IS NULL
+    UNION ALL
+    SELECT c.id, e.total + (
+        SELECT COUNT(*) FROM dependencies d JOIN tasks b ON b.id = d.blocker_id
+        WHERE d.blocked_id = c.id AND b.status != 'completed'
+    )
+    FROM tasks c JOIN effective e ON c.parent_id = e.id
+)
+UPDATE tasks SET unfinished_blockers = effective.total
+FROM effective WHERE effective.id = tasks.id;
+
+CREATE INDEX idx_dependencies_blocker_id ON dependencies(blocker_id);
+CREATE INDEX idx_tasks_ready ON tasks(mission_id, status, unfinished_blockers, priority, created_at);
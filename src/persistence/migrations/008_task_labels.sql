@@ -0,0 +1,11 @@
+-- Labels for grouping and filtering tasks
+CREATE TABLE task_labels (
+    task_id TEXT NOT NULL,
+    label TEXT NOT NULL,
+    PRIMARY KEY (task_id, label),
+    FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_task_labels_label ON task_labels(label, task_id);
+CREATE INDEX idx_tasks_mission_created ON tasks(mission_id, created_at);
+CREATE INDEX idx_tasks_mission_updated ON tasks(mission_id, updated_at);
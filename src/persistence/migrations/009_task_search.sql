@@ -0,0 +1,41 @@
+-- Full-text index over the prose of each task, kept in sync by triggers so
+-- every write path (including cascading deletes) updates it.
+CREATE VIRTUAL TABLE task_search USING fts5(
+    task_id UNINDEXED,
+    title,
+    description,
+    acceptance_criteria,
+    result_summary,
+    tokenize = 'porter unicode61'
+);
+
+INSERT INTO task_search (task_id, title, description, acceptance_criteria, result_summary)
+SELECT id, title, description, acceptance_criteria,
+       CASE WHEN json_valid(metadata) THEN json_extract(metadata, '$.result_summary') END
+FROM tasks;
+
+CREATE TRIGGER task_search_insert AFTER INSERT ON tasks BEGIN
+    INSERT INTO task_search (task_id, title, description, acceptance_criteria, result_summary)
+    VALUES (NEW.id, NEW.title, NEW.description, NEW.acceptance_criteria,
+            CASE WHEN json_valid(NEW.metadata) THEN json_extract(NEW.metadata, '$.result_summary') END);
+END;
+
+-- Status changes rewrite metadata too; only reindex when the searchable text changed.
+CREATE TRIGGER task_search_update AFTER UPDATE OF title, description, acceptance_criteria, metadata ON tasks
+WHEN OLD.title IS NOT NEW.title
+  OR OLD.description IS NOT NEW.description
+  OR OLD.acceptance_criteria IS NOT NEW.acceptance_criteria
+  OR (CASE WHEN json_valid(OLD.metadata) THEN json_extract(OLD.metadata, '$.result_summary') END)
+     IS NOT (CASE WHEN json_valid(NEW.metadata) THEN json_extract(NEW.metadata, '$.result_summary') END)
+BEGIN
+    UPDATE task_search SET
+        title = NEW.title,
+        description = NEW.description,
+        acceptance_criteria = NEW.acceptance_criteria,
+        result_summary = CASE WHEN json_valid(NEW.metadata) THEN json_extract(NEW.metadata, '$.result_summary') END
+    WHERE task_id = NEW.id;
+END;
+
+CREATE TRIGGER task_search_delete AFTER DELETE ON tasks BEGIN
+    DELETE FROM task_search WHERE task_id = OLD.id;
+END;
@@ -0,0 +1,12 @@
+-- Optimistic concurrency: every change to a task's own columns bumps its
+-- version. Derived counters (unfinished_blockers) do not count as changes.
+ALTER TABLE tasks ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+
+CREATE TRIGGER tasks_version AFTER UPDATE OF
+    title, description, status, priority, assignee, updated_at, acceptance_criteria, metadata,
+    lease_expires_at, max_attempts, attempts, blocked_by, parent_id, required_capabilities
+ON tasks
+WHEN NEW.version = OLD.version
+BEGIN
+    UPDATE tasks SET version = OLD.version + 1 WHERE id = NEW.id;
+END;
@@ -0,0 +1,45 @@
+-- Key the full-text index on the tasks rowid. The UNINDEXED task_id column
+-- made every trigger lookup scan the whole index, so bulk deletes were quadratic.
+DROP TRIGGER task_search_insert;
+DROP TRIGGER task_search_update;
+DROP TRIGGER task_search_delete;
+DROP TABLE task_search;
+
+CREATE VIRTUAL TABLE task_search USING fts5(
+    title,
+    description,
+    acceptance_criteria,
+    result_summary,
+    tokenize = 'porter unicode61'
+);
+
+INSERT INTO task_search (rowid, title, description, acceptance_criteria, result_summary)
+SELECT rowid, title, description, acceptance_criteria,
+       CASE WHEN json_valid(metadata) THEN json_extract(metadata, '$.result_summary') END
+FROM tasks;
+
+CREATE TRIGGER task_search_insert AFTER INSERT ON tasks BEGIN
+    INSERT INTO task_search (rowid, title, description, acceptance_criteria, result_summary)
+    VALUES (NEW.rowid, NEW.title, NEW.description, NEW.acceptance_criteria,
+            CASE WHEN json_valid(NEW.metadata) THEN json_extract(NEW.metadata, '$.result_summary') END);
+END;
+
+-- Status changes rewrite metadata too; only reindex when the searchable text changed.
+CREATE TRIGGER task_search_update AFTER UPDATE OF title, description, acceptance_criteria, metadata ON tasks
+WHEN OLD.title IS NOT NEW.title
+  OR OLD.description IS NOT NEW.description
+  OR OLD.acceptance_criteria IS NOT NEW.acceptance_criteria
+  OR (CASE WHEN json_valid(OLD.metadata) THEN json_extract(OLD.metadata, '$.result_summary') END)
+     IS NOT (CASE WHEN json_valid(NEW.metadata) THEN json_extract(NEW.metadata, '$.result_summary') END)
+BEGIN
+    UPDATE task_search SET
+        title = NEW.title,
+        description = NEW.description,
+        acceptance_criteria = NEW.acceptance_criteria,
+        result_summary = CASE WHEN json_valid(NEW.metadata) THEN json_extract(NEW.metadata, '$.result_summary') END
+    WHERE rowid = NEW.rowid;
+END;
+
+CREATE TRIGGER task_search_delete AFTER DELETE ON tasks BEGIN
+    DELETE FROM task_search WHERE rowid = OLD.rowid;
+END;
@@ -1,20 +1,57 @@
-import { MissionManager } from "../../core/MissionManager.ts";
-import { getContextMissionId } from "../../utils/context.ts";
+import { readFileSync, writeFileSync } from "fs";
+import { MissionManager, PlanChange } from "../../core/MissionManager.ts";
+import { TransactionMode } from "../../persistence/MissionStore.ts";
+import { parseOpencodeTodos, parseMarkdownTaskList, scanTodoComments } from "../../core/importers.ts";
+import { getActiveMissionId, getContextMissionId, setActiveMissionId } from "../../utils/context.ts";
+import { Task, TaskStatus, SubmitPlanInput, TaskSort, ImportMode } from "../../types/index.ts";
 
-type MissionCommand = "create" | "update" | "link" | "claim" | "query";
+type MissionCommand = "create" | "update" | "link" | "claim" | "query" | "history" | "heartbeat" | "retry" | "claim_next" | "edit" | "unlink" | "delete" | "why" | "register_agent" | "agents" | "missions" | "switch_mission" | "submit_plan" | "get" | "search" | "export" | "import" | "write_plan" | "sync_plan" | "import_todos";
 
 interface MissionControlPayload {
     title?: string;
     description?: string;
     priority?: number;
     acceptance_criteria?: string;
+    max_attempts?: number;
+    parent_id?: string;
+    required_capabilities?: string[];
+    capabilities?: string[];
+    labels?: string[];
+    cascade?: boolean;
     task_id?: string;
+    expected_version?: number;
     agent_id?: string;
-    status?: "pending" | "in_progress" | "completed" | "failed";
+    status?: TaskStatus;
     result_summary?: string;
     target_task_id?: string;
-    view?: "ready" | "all" | "active";
+    mission_id?: string;
+    tasks?: SubmitPlanInput['tasks'];
+    edges?: SubmitPlanInput['edges'];
+    include_archived?: boolean;
+    all_missions?: boolean;
+    path?: string;
+    document?: unknown;
+    mode?: ImportMode;
+    dry_run?: boolean;
+    source?: "opencode" | "markdown" | "comments";
+    archive?: boolean;
+    view?: "ready" | "all" | "active" | "plan" | "summary" | "graph";
+    format?: "mermaid" | "dot";
+    hops?: number;
     limit?: number;
+    weighted?: boolean;
+    min_priority?: number;
+    max_priority?: number;
+    statuses?: TaskStatus[];
+    assignee?: string;
+    created_after?: string;
+    created_before?: string;
+    updated_after?: string;
+    updated_before?: string;
+    text?: string;
+    sort?: TaskSort;
+    order?: "asc" | "desc";
+    cursor?: string;
 }
 
 interface MissionControlArgs {
@@ -22,6 +59,38 @@ interface MissionControlArgs {
     payload: MissionControlPayload;
 }
 
+interface ToolContext {
+    sessionID?: string;
+}
+
+const formatDuration = (ms: number): string => {
+    const minutes = Math.max(0, Math.floor(ms / 60000));
+    if (minutes < 60) return `${minutes}m`;
+    const hours = Math.floor(minutes / 60);
+    return hours < 48 ? `${hours}h ${minutes % 60}m` : `${Math.floor(hours / 24)}d`;
+};
+
+const renderTaskTree = (tasks: Task[]): string => {
+    const ids = new Set(tasks.map(t => t.id));
+    const children = new Map<string, Task[]>();
+    const roots: Task[] = [];
+    for (const t of tasks) {
+        if (t.parent_id && ids.has(t.parent_id)) {
+            children.set(t.parent_id, [...(children.get(t.parent_id) || []), t]);
+        } else {
+            roots.push(t);
+        }
+    }
+
+    const lines: string[] = [];
+    const walk = (t: Task, depth: number) => {
+        lines.push(`${'  '.repeat(depth)}- [${t.status.toUpperCase()}] ${t.title} (${t.id})`);
+        (children.get(t.id) || []).forEach(c => walk(c, depth + 1));
+    };
+    roots.forEach(t => walk(t, 0));
+    return lines.join('\n');
+};
+
 export const mission_control = {
     name: "mission_control",
     description: `The BRAIN of the project. Use this tool to Read (query) and Write (create, update, link) tasks in the Mission Control graph.
@@ -32,18 +101,52 @@ CRITICAL:
 - ATOMIC LOOP: Claim -> Work -> Update. Never work on a task without claiming it.
 
 Commands:
-- 'create': Create a new task. Payload: { title (req), description, priority (1-5) }.
-- 'update': Update task status. Payload: { task_id (req), status (req), result_summary }.
+- 'create': Create a new task. Payload: { title (req), description, priority (1-5), max_attempts (failures allowed before it stays failed, default 1), parent_id (make it a subtask), required_capabilities (tags an agent needs to claim it, e.g. ["frontend"]), labels }.
+  A parent's status rolls up from its subtasks, and links on a parent apply to all of its subtasks.
+- 'update': Update task status. Payload: { task_id (req), status (req), result_summary, agent_id }. Only the assignee (agent_id) can change the status of a claimed task; 'completed' is final.
+- 'submit_plan': Create a whole plan in one atomic call. Preferred over many create + link calls. Payload: { tasks: [{ key (req), title (req), description, priority, acceptance_criteria, parent, max_attempts, required_capabilities, labels, metadata }], edges: [{ blocker, blocked }] }.
+  Keys are your own local names; edges and parent may use a key or an existing task id. Returns the key -> task id mapping. Nothing is created if any part is invalid or forms a cycle.
 - 'link': Define dependency. Payload: { task_id (BLOCKER), target_task_id (BLOCKED) }.
- - 'claim': Lock a task. Payload: { task_id (req), agent_id (req) }.
-- 'query': Fetch tasks. Payload: { view: 'ready' | 'all' | 'active', limit }. ('ready' = runnable now).
+- 'unlink': Remove a dependency created by mistake. Payload: { task_id (BLOCKER), target_task_id (BLOCKED) }.
+- 'edit': Revise a task. Payload: { task_id (req), title, description, priority, acceptance_criteria, required_capabilities, labels (replaces the set) }.
+- 'delete': Remove a task. Payload: { task_id (req), cascade }. Refused when other tasks depend on it unless cascade is true, which deletes them too.
+- 'claim_next': Atomically claim the highest-priority ready task. Preferred over query + claim. Payload: { agent_id (req), min_priority, max_priority }. Only offers tasks whose required capabilities you registered. Returns no data when nothing is ready.
+ - 'claim': Lock a task. Payload: { task_id (req), agent_id (req) }. Claims are leases: they lapse back to 'pending' unless renewed.
+- 'heartbeat': Renew your claim on a task while you keep working on it. Payload: { task_id (req), agent_id (req) }.
+- 'register_agent': Announce yourself and the capabilities you have. Payload: { agent_id (req), capabilities }.
+- 'agents': List registered agents, their capabilities, whether they are active and what they have claimed.
+- 'missions': List missions with their progress; the active one is marked. Payload: { include_archived }.
+- 'switch_mission': Work on another mission for the rest of this session. Payload: { mission_id, title }. Creates the mission when it does not exist and a title is given; omit mission_id to return to this directory's mission. Pass { mission_id, title } on an existing mission to rename it, or { mission_id, archive: true } to archive it.
+- 'query': Fetch tasks. Payload: { view: 'ready' | 'all' | 'active' | 'plan' | 'summary' | 'graph', limit, agent_id }. ('ready' = runnable now; with agent_id, only tasks that agent can take).
+  'all' and 'active' accept filters: statuses (list), min_priority, max_priority, assignee, labels (all must match), created_after, created_before, updated_after, updated_before (ISO dates), text (matches title, description, criteria).
+  Sort with sort ('priority' | 'created_at' | 'updated_at' | 'title') and order ('asc' | 'desc'). Results are paged by limit; pass the returned next_cursor as cursor for the next page.
+  'graph' renders the dependency graph as Mermaid (default) or DOT (format: 'dot'); pass task_id and hops to show only the tasks around one task.
+  'summary' is a progress dashboard: status breakdown, ready vs blocked, who is working on what, stale and failed work.
+  'plan' shows the execution waves (tasks that can run in parallel) and the critical path; pass weighted: true to weigh tasks by metadata.estimate.
+- 'retry': Reopen a failed task and unblock the tasks its failure blocked. Payload: { task_id (req), agent_id }.
+- 'get': Full details of one task: status and how long it has been in it, assignee, timestamps, metadata (incl. result_summary), blockers and dependents with their statuses. Payload: { task_id (req) }.
+- 'search': Find tasks by words in their title, description, acceptance criteria or result summary, best matches first. Payload: { text (req), all_missions, limit }. Searches the current mission unless all_missions is true.
+- 'export': Snapshot a mission (tasks, dependencies, metadata) as a versioned JSON document. Payload: { mission_id (default: current), path }. Writes the file when path is given, e.g. to check a plan into git.
+- 'import': Load an exported mission. Payload: { path or document (req), mode: 'new' | 'merge' | 'replace' (default 'new'), mission_id }.
+  'new' copies it under fresh ids, 'merge' adds missing tasks and edges to the existing mission, 'replace' swaps out the mission's tasks. Reports id remappings and conflicts.
+- 'write_plan': Write the mission as a Markdown checklist for humans to review and edit. Payload: { path (default 'PLAN.md') }.
+- 'sync_plan': Apply a human's edits to that file: ticked boxes complete tasks, new lines create tasks (nested = subtask), title, \`P<n>\` and \`after:\` edits are applied, and reordered lines keep their order. Payload: { path (default 'PLAN.md'), dry_run, agent_id }.
+  Tasks changed both in the file and in the mission are reported as conflicts and left alone. The file is rewritten after a clean sync.
+- 'import_todos': Bring existing todo lists into the current mission. Payload: { source (req): 'opencode' | 'markdown' | 'comments', path, document, agent_id }.
+  'opencode' reads a todowrite JSON list (path or document), 'markdown' reads "- [ ]" task lists from the file at path, 'comments' scans the working tree (or the directory or file at path) for TODO:/FIXME: comments.
+  Source file and line are kept in metadata; items already imported or matching an existing title are skipped, so re-running is safe.
+- 'why': Explain why a task is not ready: its own state, the full chain of unfinished blockers, and which of them can be worked on now. Payload: { task_id (req) }.
+- 'history': Audit trail of a task (who created, linked, claimed, changed it and when). Payload: { task_id (req) }.
+
+Pass 'agent_id' on any write command so the change is attributed to you in the history.
+Every task carries a 'version' that goes up with each change. Pass it back as 'expected_version' on update, link, unlink, edit, delete, claim, heartbeat or retry to make the write fail if the task (task_id; for link and unlink the blocked target_task_id) changed since you read it.
 `,
     parameters: {
         type: "object",
         properties: {
             command: {
                 type: "string",
-                enum: ["create", "update", "link", "claim", "query"],
+                enum: ["create", "update", "link", "claim", "query", "history", "heartbeat", "retry", "claim_next", "edit", "unlink", "delete", "why", "register_agent", "agents", "missions", "switch_mission", "submit_plan", "get", "search", "export", "import", "write_plan", "sync_plan", "import_todos"],
                 description: "The operation to perform"
             },
             payload: {
@@ -53,13 +156,76 @@ Commands:
                     description: { type: "string" },
                     acceptance_criteria: { type: "string" },
                     priority: { type: "number" },
+                    parent_id: { type: "string", description: "Parent task for 'create'; the new task becomes its subtask" },
+                    max_attempts: { type: "number", description: "Failures allowed before the task stays failed and blocks its dependents" },
+                    required_capabilities: { type: "array", items: { type: "string" }, description: "Capabilities an agent must have to claim the task" },
+                    capabilities: { type: "array", items: { type: "string" }, description: "For 'register_agent': the agent's capabilities" },
+                    labels: { type: "array", items: { type: "string" }, description: "Labels for 'create'/'edit'; a filter for 'query'" },
                     task_id: { type: "string" },
-                    agent_id: { type: "string", description: "Agent ID for claiming tasks" },
-                    status: { type: "string", enum: ["pending", "in_progress", "completed", "failed"] },
+                    expected_version: { type: "number", description: "For writes on task_id (target_task_id for link/unlink): fail if the task's version is no longer this" },
+                    agent_id: { type: "string", description: "Agent ID for claiming tasks and attributing changes" },
+                    status: { type: "string", enum: ["pending", "ready", "in_progress", "review", "completed", "failed", "blocked"] },
                     result_summary: { type: "string" },
                     target_task_id: { type: "string" },
-                    view: { type: "string", enum: ["ready", "all", "active"] },
-                    limit: { type: "number" }
+                    mission_id: { type: "string", description: "For 'switch_mission': the mission to work on; for 'export'/'import': the mission to read or write" },
+                    tasks: {
+                        type: "array",
+                        description: "For 'submit_plan': tasks keyed by a local reference",
+                        items: {
+                            type: "object",
+                            properties: {
+                                key: { type: "string" },
+                                title: { type: "string" },
+                                description: { type: "string" },
+                                priority: { type: "number" },
+                                acceptance_criteria: { type: "string" },
+                                parent: { type: "string", description: "Key or id of the parent task" },
+                                max_attempts: { type: "number" },
+                                required_capabilities: { type: "array", items: { type: "string" } },
+                                labels: { type: "array", items: { type: "string" } },
+                                metadata: { type: "object", description: "Free-form data stored on the task, e.g. { estimate: 3 } for the weighted plan view" }
+                            },
+                            required: ["key", "title"]
+                        }
+                    },
+                    edges: {
+                        type: "array",
+                        description: "For 'submit_plan': dependencies between keys or existing task ids",
+                        items: {
+                            type: "object",
+                            properties: {
+                                blocker: { type: "string" },
+                                blocked: { type: "string" }
+                            },
+                            required: ["blocker", "blocked"]
+                        }
+                    },
+                    include_archived: { type: "boolean", description: "For 'missions': also list archived missions" },
+                    all_missions: { type: "boolean", description: "For 'search': search every mission instead of the current one" },
+                    path: { type: "string", description: "For 'export'/'import': JSON file to write or read; for 'write_plan'/'sync_plan': the Markdown plan file" },
+                    document: { type: "object", description: "For 'import': an exported mission document, instead of path" },
+                    mode: { type: "string", enum: ["new", "merge", "replace"], description: "For 'import': how to combine with existing data" },
+                    dry_run: { type: "boolean", description: "For 'sync_plan': only report what would change" },
+                    source: { type: "string", enum: ["opencode", "markdown", "comments"], description: "For 'import_todos': what to import" },
+                    archive: { type: "boolean", description: "For 'switch_mission': archive the given mission instead of switching to it" },
+                    cascade: { type: "boolean", description: "For 'delete': also delete dependents and subtasks" },
+                    view: { type: "string", enum: ["ready", "all", "active", "plan", "summary", "graph"] },
+                    format: { type: "string", enum: ["mermaid", "dot"], description: "For the 'graph' view: output format" },
+                    hops: { type: "number", description: "For the 'graph' view with task_id: dependency hops to include up and down" },
+                    weighted: { type: "boolean", description: "For the 'plan' view: weigh tasks by metadata.estimate" },
+                    limit: { type: "number" },
+                    min_priority: { type: "number", description: "Lowest priority number (most urgent) for claim_next" },
+                    max_priority: { type: "number", description: "Highest priority number (least urgent) for claim_next" },
+                    statuses: { type: "array", items: { type: "string", enum: ["pending", "ready", "in_progress", "review", "completed", "failed", "blocked"] }, description: "Query filter: any of these statuses" },
+                    assignee: { type: "string", description: "Query filter: assigned agent" },
+                    created_after: { type: "string" },
+                    created_before: { type: "string" },
+                    updated_after: { type: "string" },
+                    updated_before: { type: "string" },
+                    text: { type: "string", description: "Query filter: free text; the words to look for with 'search'" },
+                    sort: { type: "string", enum: ["priority", "created_at", "updated_at", "title"] },
+                    order: { type: "string", enum: ["asc", "desc"] },
+                    cursor: { type: "string", description: "next_cursor from the previous query page" }
                 }
             }
         },
@@ -67,9 +233,12 @@ Commands:
     },
     handler: async (
         manager: MissionManager,
-        { command, payload }: MissionControlArgs
+        { command, payload }: MissionControlArgs,
+        context: ToolContext = {}
     ) => {
-        const missionId = getContextMissionId();
+        const missionId = getActiveMissionId(context.sessionID);
+        const guarded = <T>(taskId: string, operation: () => T, mode?: TransactionMode): T =>
+            manager.withExpectedVersion(taskId, payload.expected_version, operation, mode);
 
         switch (command) {
             case "create": {
@@ -79,61 +248,476 @@ Commands:
                     payload.title,
                     payload.description || "",
                     payload.priority || 4,
-                    payload.acceptance_criteria
+                    payload.acceptance_criteria,
+                    undefined,
+                    payload.agent_id ?? null,
+                    { maxAttempts: payload.max_attempts, parentId: payload.parent_id, requiredCapabilities: payload.required_capabilities, labels: payload.labels }
                 );
                 return { success: true, data: task };
             }
 
             case "update": {
                 if (!payload.task_id || !payload.status) throw new Error("task_id and status required for update");
-                const task = manager.updateTaskStatus(payload.task_id, payload.status as any, payload.result_summary);
+                const { task_id, status } = payload;
+                const task = guarded(task_id, () => manager.updateTaskStatus(task_id, status, payload.result_summary, payload.agent_id ?? null),
+                    status === "in_progress" ? "immediate" : undefined);
                 return { success: true, data: task };
             }
 
+            case "submit_plan": {
+                if (!payload.tasks) throw new Error("tasks required for submit_plan");
+                const result = manager.submitPlan(missionId, { tasks: payload.tasks, edges: payload.edges }, payload.agent_id ?? null);
+                const lines = Object.entries(result.ids).map(([key, id]) => `- ${key} → ${id}`);
+                return {
+                    success: true,
+                    count: result.tasks.length,
+                    data: result,
+                    message: `Created ${result.tasks.length} task(s) and ${result.links} link(s):\n${lines.join('\n')}`
+                };
+            }
+
             case "link": {
                 if (!payload.task_id || !payload.target_task_id) throw new Error("task_id (blocker) and target_task_id (blocked) required for link");
-                await manager.linkTasks(payload.task_id, payload.target_task_id);
+                const { task_id, target_task_id } = payload;
+                guarded(target_task_id, () => manager.linkTasks(task_id, target_task_id, payload.agent_id ?? null));
                 return { success: true, message: `Linked ${payload.task_id} -> ${payload.target_task_id}` };
             }
 
+            case "unlink": {
+                if (!payload.task_id || !payload.target_task_id) throw new Error("task_id (blocker) and target_task_id (blocked) required for unlink");
+                const { task_id, target_task_id } = payload;
+                guarded(target_task_id, () => manager.unlinkTasks(task_id, target_task_id, payload.agent_id ?? null));
+                return { success: true, message: `Unlinked ${payload.task_id} -> ${payload.target_task_id}` };
+            }
+
+            case "edit": {
+                if (!payload.task_id) throw new Error("task_id required for edit");
+                const { task_id } = payload;
+                const task = guarded(task_id, () => manager.editTask(task_id, {
+                    title: payload.title,
+                    description: payload.description,
+                    priority: payload.priority,
+                    acceptance_criteria: payload.acceptance_criteria,
+                    required_capabilities: payload.required_capabilities,
+                    labels: payload.labels
+                }, payload.agent_id ?? null));
+                return { success: true, data: task };
+            }
+
+            case "delete": {
+                if (!payload.task_id) throw new Error("task_id required for delete");
+                const { task_id } = payload;
+                const deleted = guarded(task_id, () => manager.deleteTask(task_id, { cascade: payload.cascade }, payload.agent_id ?? null));
+                return { success: true, data: deleted, message: `Deleted ${deleted.length} task(s): ${deleted.join(', ')}` };
+            }
+
             case "claim": {
                 if (!payload.task_id || !payload.agent_id) throw new Error("task_id and agent_id required for claim");
-                const task = manager.claimTask(payload.task_id, payload.agent_id);
+                const { task_id, agent_id } = payload;
+                const task = guarded(task_id, () => manager.claimTask(task_id, agent_id), "immediate");
                 return { success: true, data: task };
             }
 
+            case "claim_next": {
+                if (!payload.agent_id) throw new Error("agent_id required for claim_next");
+                const task = manager.claimNext(missionId, payload.agent_id, {
+                    min_priority: payload.min_priority,
+                    max_priority: payload.max_priority
+                });
+                if (!task) {
+                    return { success: true, data: null, message: "No ready tasks to claim." };
+                }
+                return { success: true, data: task, message: `Claimed ${task.id}: ${task.title}` };
+            }
+
+            case "heartbeat": {
+                if (!payload.task_id || !payload.agent_id) throw new Error("task_id and agent_id required for heartbeat");
+                const { task_id, agent_id } = payload;
+                const task = guarded(task_id, () => manager.heartbeat(task_id, agent_id));
+                return { success: true, data: task, message: `Lease on ${task.id} extended until ${task.lease_expires_at}` };
+            }
+
+            case "register_agent": {
+                if (!payload.agent_id) throw new Error("agent_id required for register_agent");
+                const agent = manager.registerAgent(payload.agent_id, payload.capabilities);
+                const caps = agent.capabilities.length > 0 ? agent.capabilities.join(', ') : 'none';
+                return { success: true, data: agent, message: `Registered ${agent.id} (capabilities: ${caps})` };
+            }
+
+            case "agents": {
+                const agents = manager.listAgents();
+                const lines = agents.map(a => {
+                    const caps = a.capabilities.length > 0 ? a.capabilities.join(', ') : 'none';
+                    const claims = a.claimed_tasks.length > 0 ? a.claimed_tasks.join(', ') : 'nothing';
+                    return `- **${a.id}** ${a.active ? '🟢 active' : '⚪ idle'} | capabilities: ${caps} | working on: ${claims} | last seen ${a.last_seen_at}`;
+                });
+                return {
+                    success: true,
+                    count: agents.length,
+                    data: agents,
+                    message: `## Registered Agents (${agents.length})\n` + (agents.length > 0 ? lines.join('\n') : "No agents registered.")
+                };
+            }
+
+            case "missions": {
+                const missions = manager.listMissions({ includeArchived: payload.include_archived });
+                const lines = missions.map(m => {
+                    const marker = m.id === missionId ? '👉 ' : '';
+                    return `- ${marker}**${m.title}** (${m.id}) | ${m.status.toUpperCase()} | ${m.completed_count}/${m.task_count} tasks completed`;
+                });
+                return {
+                    success: true,
+                    count: missions.length,
+                    data: missions,
+                    message: `## Missions (${missions.length})\n` + (missions.length > 0 ? lines.join('\n') : "No missions found.")
+                };
+            }
+
+            case "switch_mission": {
+                if (payload.archive) {
+                    if (!payload.mission_id) throw new Error("mission_id required to archive a mission");
+                    const mission = manager.archiveMission(payload.mission_id);
+                    if (mission.id === missionId) setActiveMissionId(context.sessionID, null);
+                    return { success: true, data: mission, message: `Archived mission ${mission.id}` };
+                }
+
+                const targetId = payload.mission_id || getContextMissionId();
+                const existing = manager.listMissions({ includeArchived: true }).find(m => m.id === targetId);
+                if (!existing) {
+                    if (!payload.title) throw new Error(`Mission ${targetId} does not exist; pass a title to create it`);
+                    manager.createMission(targetId, payload.title);
+                } else if (payload.title && payload.title !== existing.title) {
+                    manager.renameMission(targetId, payload.title);
+                }
+
+                setActiveMissionId(context.sessionID, payload.mission_id ? targetId : null);
+                const active = manager.getMission(targetId);
+                return { success: true, data: active, message: `Now working on mission '${active.title}' (${active.id})` };
+            }
+
+            case "retry": {
+                if (!payload.task_id) throw new Error("task_id required for retry");
+                const { task_id } = payload;
+                const task = guarded(task_id, () => manager.retryTask(task_id, payload.agent_id ?? null));
+                return { success: true, data: task, message: `Task ${task.id} reopened` };
+            }
+
             case "query": {
                 const view = payload.view || "ready";
                 const limit = payload.limit || 50;
-                let tasks: any[] = [];
+                let tasks: Task[] = [];
+
+                if (view === "plan") {
+                    const order = manager.getTopologicalOrder(missionId);
+                    const waves = manager.getExecutionWaves(missionId);
+                    const critical = manager.getCriticalPath(missionId, { weighted: payload.weighted });
+                    const maxParallelism = Math.max(0, ...waves.map(w => w.length));
+
+                    const waveLines = waves.map((wave, i) =>
+                        `${i + 1}. (${wave.length} parallel) ${wave.map(t => `${t.title} [${t.id}]`).join(', ')}`);
+                    const pathLine = critical.tasks.map(t => `${t.title} [${t.id}]`).join(' → ');
+
+                    const message = [
+                        `## Mission Control Report: PLAN (${order.length} tasks)`,
+                        `Max useful parallelism: ${maxParallelism} agent(s)`,
+                        '',
+                        `### Execution Waves`,
+                        waveLines.length > 0 ? waveLines.join('\n') : 'No remaining work.',
+                        '',
+                        `### Critical Path (length ${critical.length}${payload.weighted ? ', weighted by estimate' : ''})`,
+                        pathLine || 'None'
+                    ].join('\n');
+
+                    return {
+                        success: true,
+                        count: order.length,
+                        data: order,
+                        plan: {
+                            waves: waves.map(w => w.map(t => t.id)),
+                            critical_path: critical.tasks.map(t => t.id),
+                            critical_path_length: critical.length,
+                            max_parallelism: maxParallelism
+                        },
+                        message
+                    };
+                }
 
+                if (view === "graph") {
+                    const format = payload.format || "mermaid";
+                    const graph = manager.renderMissionGraph(missionId, { format, focus: payload.task_id, hops: payload.hops });
+                    const scope = payload.task_id ? ` around ${payload.task_id}` : '';
+                    return {
+                        success: true,
+                        data: graph,
+                        message: `## Mission Control Report: GRAPH${scope}\n\`\`\`${format}\n${graph}\n\`\`\``
+                    };
+                }
+
+                if (view === "summary") {
+                    const summary = manager.getMissionSummary(missionId, payload.limit || 5);
+                    const taskLine = (t: Task, extra: string) => `- ${t.title} (${t.id})${extra}`;
+                    const section = (title: string, lines: string[]) => ['', `### ${title}`, lines.length > 0 ? lines.join('\n') : 'None'];
+
+                    const completed = summary.by_status.completed;
+                    const statusLines = Object.entries(summary.by_status)
+                        .filter(([, s]) => s.count > 0)
+                        .map(([status, s]) => `- ${status.toUpperCase()}: ${s.count} (${s.percent}%)`);
+
+                    const message = [
+                        `## Mission Control Report: SUMMARY (${summary.total} tasks)`,
+                        `Progress: ${completed.count}/${summary.total} completed (${completed.percent}%)`,
+                        `Ready now: ${summary.ready} | Blocked or waiting: ${summary.blocked}`,
+                        ...section('By Status', statusLines),
+                        ...section('Active Agents', summary.active_agents.map(a =>
+                            `- ${a.agent_id}: ${a.task_ids.join(', ')}${a.last_seen_at ? ` (last seen ${a.last_seen_at})` : ''}`)),
+                        ...section('Oldest In Progress', summary.oldest_in_progress.map(t =>
+                            taskLine(t, ` — @${t.assignee ?? 'unassigned'} for ${formatDuration(Date.now() - new Date(t.updated_at).getTime())}`))),
+                        ...section('Recently Completed', summary.recent_completions.map(t => taskLine(t, ` — ${t.updated_at}`))),
+                        ...section('Failed', summary.failed.map(t =>
+                            taskLine(t, t.metadata?.result_summary ? ` — ${t.metadata.result_summary}` : '')))
+                    ].join('\n');
+
+                    return { success: true, count: summary.total, data: summary, message };
+                }
+
+                let nextCursor: string | null = null;
                 if (view === "ready") {
-                    tasks = manager.getReadyTasks(missionId, limit);
-                } else if (view === "all") {
-                    tasks = manager.getAllTasks(missionId);
-                } else if (view === "active") {
-                    tasks = manager.getActiveTasks(missionId);
+                    tasks = manager.getReadyTasks(missionId, limit, { agent_id: payload.agent_id });
+                } else if (view === "all" || view === "active") {
+                    const page = manager.queryTasks(missionId, {
+                        statuses: view === "active" ? ["in_progress"] : payload.statuses,
+                        min_priority: payload.min_priority,
+                        max_priority: payload.max_priority,
+                        assignee: payload.assignee,
+                        labels: payload.labels,
+                        created_after: payload.created_after,
+                        created_before: payload.created_before,
+                        updated_after: payload.updated_after,
+                        updated_before: payload.updated_before,
+                        text: payload.text,
+                        sort: payload.sort ?? "created_at",
+                        order: payload.order,
+                        limit,
+                        cursor: payload.cursor
+                    });
+                    tasks = page.tasks;
+                    nextCursor = page.next_cursor;
                 } else {
                     return { success: false, message: `View '${view}' not supported` };
                 }
 
+                const blockerIndex = manager.getBlockerIndex(missionId);
                 const report = tasks.map(t => {
-                    const deps = manager.getDependencies(t.id);
+                    const blockers = blockerIndex.get(t.id) || [];
                     return `
 🆔 **${t.id}** | 🚦 ${t.status.toUpperCase()} | 🚨 P${t.priority}
 Title: ${t.title}
+${t.parent_id ? `↳ Subtask of ${t.parent_id}` : ''}
+${blockers.length > 0 ? `🔗 Depends on: ${blockers.map(b => `${b.title} (${b.id}) [${b.status.toUpperCase()}]`).join(', ')}` : ''}
+${t.blocked_by ? `⛔ Blocked: upstream task ${t.blocked_by} failed` : ''}
+${t.required_capabilities?.length ? `🧰 Requires: ${t.required_capabilities.join(', ')}` : ''}
+${t.labels?.length ? `🏷️ Labels: ${t.labels.join(', ')}` : ''}
 ${t.acceptance_criteria ? `✅ Criteria: ${t.acceptance_criteria}` : ''}
 ${t.description ? `📝 ${t.description}` : ''}
     `.trim();
                 }).join('\n\n---\n\n');
 
                 const header = `## Mission Control Report: ${view.toUpperCase()} (${tasks.length} tasks)\n`;
+                const tree = view === "all" && tasks.length > 0 ? `### Task Tree\n${renderTaskTree(tasks)}\n\n` : '';
+                const more = nextCursor ? `\n\n➡️ More tasks available: query again with cursor "${nextCursor}".` : '';
 
                 return {
                     success: true,
                     count: tasks.length,
                     data: tasks, // Keep raw data for programmatic use
-                    message: header + (tasks.length > 0 ? report : "No tasks found.")
+                    next_cursor: nextCursor,
+                    message: header + tree + (tasks.length > 0 ? report : "No tasks found.") + more
+                };
+            }
+
+            case "get": {
+                if (!payload.task_id) throw new Error("task_id required for get");
+                const detail = manager.getTaskDetail(payload.task_id);
+                const { task } = detail;
+                const linkLine = (l: { id: string; title: string; status: string; assignee: string | null }) =>
+                    `- [${l.status.toUpperCase()}${l.assignee ? ` @${l.assignee}` : ''}] ${l.title} (${l.id})`;
+                const section = (title: string, links: typeof detail.blockers) =>
+                    links.length > 0 ? ['', `### ${title}`, ...links.map(linkLine)] : [];
+
+                const lines = [
+                    `## ${task.title} (${task.id})`,
+                    `🚦 ${task.status.toUpperCase()} for ${formatDuration(detail.time_in_status_ms)} (since ${detail.status_since}) | 🚨 P${task.priority}`,
+                    `👤 Assignee: ${task.assignee ?? 'none'}${task.lease_expires_at ? ` (lease until ${task.lease_expires_at})` : ''}`,
+                    `🕒 Created ${task.created_at} | Updated ${task.updated_at} | Version ${task.version ?? 1}`,
+                    `🔁 Attempts: ${task.attempts ?? 0}/${task.max_attempts ?? 1}`,
+                    detail.parent ? `↳ Subtask of ${detail.parent.title} (${detail.parent.id})` : '',
+                    task.blocked_by ? `⛔ Blocked: upstream task ${task.blocked_by} failed` : '',
+                    task.required_capabilities?.length ? `🧰 Requires: ${task.required_capabilities.join(', ')}` : '',
+                    task.acceptance_criteria ? `✅ Criteria: ${task.acceptance_criteria}` : '',
+                    task.description ? `📝 ${task.description}` : '',
+                    task.metadata.result_summary ? `📄 Result: ${task.metadata.result_summary}` : ''
+                ].filter(Boolean);
+                lines.push(...section('Blocked By', detail.blockers), ...section('Blocks', detail.dependents), ...section('Subtasks', detail.subtasks));
+                if (Object.keys(task.metadata).length > 0) {
+                    lines.push('', '### Metadata', '```json', JSON.stringify(task.metadata, null, 2), '```');
+                }
+
+                return { success: true, data: detail, message: lines.join('\n') };
+            }
+
+            case "search": {
+                if (!payload.text) throw new Error("text required for search");
+                const hits = manager.searchTasks(payload.text, {
+                    mission_id: payload.all_missions ? undefined : missionId,
+                    limit: payload.limit
+                });
+
+                const lines = hits.map(({ task, snippet }) => {
+                    const mission = payload.all_missions ? ` | mission ${task.mission_id}` : '';
+                    return `- [${task.status.toUpperCase()}] ${task.title} (${task.id})${mission}\n  > ${snippet.replace(/\s+/g, ' ')}`;
+                });
+                const scope = payload.all_missions ? 'all missions' : `mission ${missionId}`;
+
+                return {
+                    success: true,
+                    count: hits.length,
+                    data: hits,
+                    message: `## Search: "${payload.text}" in ${scope} (${hits.length})\n` + (hits.length > 0 ? lines.join('\n') : "No matching tasks.")
+                };
+            }
+
+            case "export": {
+                const doc = manager.exportMission(payload.mission_id || missionId);
+                const json = JSON.stringify(doc, null, 2);
+                const summary = `${doc.tasks.length} tasks and ${doc.dependencies.length} dependencies of mission '${doc.mission.title}' (${doc.mission.id})`;
+                if (payload.path) {
+                    writeFileSync(payload.path, json + '\n');
+                    return { success: true, data: doc, message: `Exported ${summary} to ${payload.path}` };
+                }
+                return { success: true, data: doc, message: `Exported ${summary}\n\n\`\`\`json\n${json}\n\`\`\`` };
+            }
+
+            case "import": {
+                if (!payload.path && !payload.document) throw new Error("path or document required for import");
+                const doc = payload.document ?? JSON.parse(readFileSync(payload.path!, 'utf-8'));
+                const result = manager.importMission(doc, { mode: payload.mode ?? 'new', missionId: payload.mission_id }, payload.agent_id ?? null);
+
+                const remapped = Object.entries(result.ids).filter(([from, to]) => from !== to);
+                const lines = [
+                    `Imported ${result.created.length} tasks into mission '${result.mission.title}' (${result.mission.id})`,
+                    ...(remapped.length > 0 ? ['', '### Remapped Ids', ...remapped.map(([from, to]) => `- ${from} → ${to}`)] : []),
+                    ...(result.conflicts.length > 0 ? ['', '### Conflicts', ...result.conflicts.map(c => `- ${c.task_id}: ${c.reason}`)] : [])
+                ];
+                return { success: true, count: result.created.length, data: result, message: lines.join('\n') };
+            }
+
+            case "write_plan": {
+                const path = payload.path || "PLAN.md";
+                const markdown = manager.renderPlanMarkdown(missionId);
+                writeFileSync(path, markdown);
+                return { success: true, data: { path, markdown }, message: `Wrote plan for mission ${missionId} to ${path}` };
+            }
+
+            case "sync_plan": {
+                const path = payload.path || "PLAN.md";
+                const result = manager.syncPlanMarkdown(missionId, readFileSync(path, 'utf-8'), {
+                    dryRun: payload.dry_run,
+                    actor: payload.agent_id
+                });
+                if (result.applied && result.conflicts.length === 0) {
+                    writeFileSync(path, manager.renderPlanMarkdown(missionId));
+                }
+
+                const describe = (c: PlanChange): string => {
+                    switch (c.type) {
+                        case 'create': return `+ create "${c.title}" (line ${c.line})${c.completed ? ' as completed' : ''}`;
+                        case 'edit': return `~ edit ${c.task_id}: ${Object.entries(c.changes).map(([k, v]) => `${k} → ${JSON.stringify(v)}`).join(', ')}`;
+                        case 'link': return `+ link ${c.blocker_id} → ${c.blocked_id}`;
+                        case 'unlink': return `- unlink ${c.blocker_id} → ${c.blocked_id}`;
+                        case 'complete': return `✓ complete ${c.task_id}`;
+                        case 'reorder': return `↕ reorder ${c.lines.length} item(s) under ${c.parent_id ?? 'the top level'}`;
+                    }
+                };
+                const lines = [
+                    `## ${result.applied ? 'Synced' : 'Dry run of'} ${path} (${result.changes.length} changes, ${result.conflicts.length} conflicts)`,
+                    ...(result.changes.length > 0 ? result.changes.map(describe) : ['No changes.']),
+                    ...(result.conflicts.length > 0 ? ['', '### Conflicts', ...result.conflicts.map(c => `- ⚠️ line ${c.line}${c.task_id ? ` (${c.task_id})` : ''}: ${c.reason}`)] : [])
+                ];
+                return { success: true, count: result.changes.length, data: result, message: lines.join('\n') };
+            }
+
+            case "import_todos": {
+                let todos;
+                switch (payload.source) {
+                    case "opencode":
+                        if (!payload.path && !payload.document) throw new Error("path or document required to import opencode todos");
+                        todos = parseOpencodeTodos(payload.document ?? JSON.parse(readFileSync(payload.path!, 'utf-8')), payload.path ?? null);
+                        break;
+                    case "markdown":
+                        if (!payload.path) throw new Error("path required to import a markdown task list");
+                        todos = parseMarkdownTaskList(readFileSync(payload.path, 'utf-8'), payload.path);
+                        break;
+                    case "comments":
+                        todos = scanTodoComments(payload.path || process.cwd());
+                        break;
+                    default:
+                        throw new Error("source required for import_todos: 'opencode', 'markdown' or 'comments'");
+                }
+
+                const result = manager.importTodos(missionId, todos, payload.agent_id);
+                const lines = [
+                    `## Imported ${result.created.length} of ${todos.length} todos (${result.skipped.length} skipped)`,
+                    ...result.created.map(t => `- [${t.status.toUpperCase()}] ${t.title} (${t.id})${t.metadata.source_file ? ` — ${t.metadata.source_file}${t.metadata.source_line ? `:${t.metadata.source_line}` : ''}` : ''}`)
+                ];
+                return { success: true, count: result.created.length, data: result, message: lines.join('\n') };
+            }
+
+            case "why": {
+                if (!payload.task_id) throw new Error("task_id required for why");
+                const explanation = manager.explainBlocked(payload.task_id);
+                const { task, blockers, frontier } = explanation;
+
+                const label = (b: { status: string; assignee: string | null }) =>
+                    `${b.status.toUpperCase()}${b.assignee ? ` @${b.assignee}` : ''}`;
+                const chain: string[] = [];
+                const walk = (blocks: string, depth: number) => {
+                    for (const b of blockers.filter(x => x.blocks === blocks)) {
+                        chain.push(`${'  '.repeat(depth)}- [${label(b)}] ${b.title} (${b.id})`);
+                        walk(b.id, depth + 1);
+                    }
+                };
+                walk(task.id, 0);
+
+                const lines = [
+                    `## Why is '${task.title}' (${task.id}) ${explanation.ready ? 'ready' : 'not ready'}?`,
+                    `🚦 Status: ${task.status.toUpperCase()}`,
+                    ...(explanation.ready ? ['✅ Task is ready to be claimed.'] : explanation.reasons.map(r => `- ${r}`))
+                ];
+                if (chain.length > 0) {
+                    lines.push('', '### Blocker Chain', ...chain);
+                    lines.push('', '### Actionable Now', ...frontier.map(b => `- ${b.title} (${b.id}) — ${label(b)}`));
+                }
+
+                return { success: true, data: explanation, message: lines.join('\n') };
+            }
+
+            case "history": {
+                if (!payload.task_id) throw new Error("task_id required for history");
+                const events = manager.getTaskHistory(payload.task_id);
+
+                const lines = events.map(e => {
+                    const actor = e.actor ? ` by ${e.actor}` : '';
+                    const change = e.old_value ? `${JSON.stringify(e.old_value)} → ${JSON.stringify(e.new_value)}` : JSON.stringify(e.new_value);
+                    return `- ${e.created_at} **${e.event_type}**${actor}: ${change}`;
+                });
+
+                const header = `## Task History: ${payload.task_id} (${events.length} events)\n`;
+
+                return {
+                    success: true,
+                    count: events.length,
+                    data: events,
+                    message: header + (events.length > 0 ? lines.join('\n') : "No events recorded.")
                 };
             }
 
@@ -6,6 +6,6 @@ export const registerTools = (manager: MissionManager) => {
         mission_control
     ].map((tool: any) => ({
         ...tool,
-        handler: (args: any) => tool.handler(manager, args)
+        handler: (args: any, context?: any) => tool.handler(manager, args, context)
     }));
 };
@@ -39,3 +39,45 @@ export class InvalidOperationError extends MissionControlError {
         this.name = 'InvalidOperationError';
     }
 }
+
+export class SchemaVersionError extends MissionControlError {
+    constructor(databaseVersion: number, supportedVersion: number) {
+        super(`Database schema version ${databaseVersion} is newer than the supported version ${supportedVersion}; upgrade opencode-mission-control to open it`);
+        this.name = 'SchemaVersionError';
+    }
+}
+
+export class InvalidTransitionError extends MissionControlError {
+    constructor(taskId: string, from: string, to: string) {
+        super(`Task ${taskId} cannot move from '${from}' to '${to}'`);
+        this.name = 'InvalidTransitionError';
+    }
+}
+
+export class TaskOwnershipError extends MissionControlError {
+    constructor(taskId: string, assignee: string, actor: string | null) {
+        super(`Task ${taskId} is owned by agent ${assignee}; ${actor ? `agent ${actor}` : 'an anonymous caller'} cannot change its status`);
+        this.name = 'TaskOwnershipError';
+    }
+}
+
+export class MissingCapabilityError extends MissionControlError {
+    constructor(taskId: string, agentId: string, missing: string[]) {
+        super(`Agent ${agentId} lacks capabilities required by task ${taskId}: ${missing.join(', ')}`);
+        this.name = 'MissingCapabilityError';
+    }
+}
+
+export class VersionConflictError extends MissionControlError {
+    constructor(taskId: string, expected: number, actual: number) {
+        super(`Task ${taskId} changed since it was read (expected version ${expected}, now ${actual}); fetch it again and retry`);
+        this.name = 'VersionConflictError';
+    }
+}
+
+export class DatabaseBusyError extends MissionControlError {
+    constructor(attempts: number) {
+        super(`The mission database stayed locked by another process after ${attempts} attempts; try again shortly`);
+        this.name = 'DatabaseBusyError';
+    }
+}
@@ -5,7 +5,19 @@ import {
   TaskStatusSchema,
   TaskSchema,
   DependencySchema,
+  TaskEventTypeSchema,
+  TaskEventSchema,
   CreateTaskInputSchema,
+  ReadyTaskFiltersSchema,
+  EditTaskInputSchema,
+  AgentSchema,
+  SubmitPlanInputSchema,
+  TaskQuerySchema,
+  SearchTasksInputSchema,
+  TaskSortSchema,
+  ExportedTaskSchema,
+  MissionExportSchema,
+  ImportModeSchema,
 } from './schemas';
 
 export type MissionStatus = z.infer<typeof MissionStatusSchema>;
@@ -14,5 +26,17 @@ export type TaskStatus = z.infer<typeof TaskStatusSchema>;
 export type Mission = z.infer<typeof MissionSchema>;
 export type Task = z.infer<typeof TaskSchema>;
 export type Dependency = z.infer<typeof DependencySchema>;
+export type TaskEventType = z.infer<typeof TaskEventTypeSchema>;
+export type TaskEvent = z.infer<typeof TaskEventSchema>;
 
 export type CreateTaskInput = z.infer<typeof CreateTaskInputSchema>;
+export type ReadyTaskFilters = z.infer<typeof ReadyTaskFiltersSchema>;
+export type EditTaskInput = z.infer<typeof EditTaskInputSchema>;
+export type Agent = z.infer<typeof AgentSchema>;
+export type SubmitPlanInput = z.infer<typeof SubmitPlanInputSchema>;
+export type TaskQuery = z.infer<typeof TaskQuerySchema>;
+export type SearchTasksInput = z.infer<typeof SearchTasksInputSchema>;
+export type TaskSort = z.infer<typeof TaskSortSchema>;
+export type ExportedTask = z.infer<typeof ExportedTaskSchema>;
+export type MissionExport = z.infer<typeof MissionExportSchema>;
+export type ImportMode = z.infer<typeof ImportModeSchema>;
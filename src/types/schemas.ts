@@ -1,13 +1,35 @@
 import { z } from 'zod';
 
-export const MissionStatusSchema = z.enum(['active', 'archived']);
+export const MissionStatusSchema = z.enum(['active', 'completed', 'archived']);
 
 export const TaskStatusSchema = z.enum(['pending', 'ready', 'in_progress', 'review', 'completed', 'failed', 'blocked']);
 
+type TaskStatusValue = z.infer<typeof TaskStatusSchema>;
+
+/**
+ * Allowed status changes. Entering `in_progress` from `pending`/`ready` is a claim,
+ * `completed` is terminal, and `failed`/`blocked` tasks must be reopened to `pending`.
+ */
+export const TaskStatusTransitions: Record<TaskStatusValue, readonly TaskStatusValue[]> = {
+  pending: ['ready', 'in_progress', 'blocked'],
+  ready: ['pending', 'in_progress', 'blocked'],
+  in_progress: ['pending', 'review', 'completed', 'failed', 'blocked'],
+  review: ['in_progress', 'completed', 'failed'],
+  completed: [],
+  failed: ['pending'],
+  blocked: ['pending'],
+};
+
+export function isValidTransition(from: TaskStatusValue, to: TaskStatusValue): boolean {
+  return from === to || TaskStatusTransitions[from].includes(to);
+}
+
 export const TaskPrioritySchema = z.number().min(0).max(4);
 
 export const DateStringSchema = z.string();
 
+export const CapabilitySchema = z.string().trim().min(1).toLowerCase();
+
 export const MissionSchema = z.object({
   id: z.string(),
   title: z.string(),
@@ -27,6 +49,17 @@ export const TaskSchema = z.object({
    updated_at: DateStringSchema,
    acceptance_criteria: z.union([z.string(), z.null()]).optional(),
     metadata: z.record(z.string(), z.unknown()),
+  lease_expires_at: z.nullable(z.string()).optional(),
+  max_attempts: z.number().int().min(1).optional(),
+  attempts: z.number().int().min(0).optional(),
+  blocked_by: z.nullable(z.string()).optional(),
+  parent_id: z.nullable(z.string()).optional(),
+  required_capabilities: z.array(z.string()).optional(),
+  labels: z.array(z.string()).optional(),
+  /** Unfinished blockers gating the task, including those on its ancestors. */
+  unfinished_blockers: z.number().int().optional(),
+  /** Bumped on every change; pass back as `expected_version` to detect concurrent writes. */
+  version: z.number().int().min(1).optional(),
 });
 
 export const DependencySchema = z.object({
@@ -35,6 +68,71 @@ export const DependencySchema = z.object({
   mission_id: z.string(),
 });
 
+export const AgentSchema = z.object({
+  id: z.string(),
+  capabilities: z.array(z.string()),
+  registered_at: DateStringSchema,
+  last_seen_at: DateStringSchema,
+});
+
+export const RegisterAgentInputSchema = z.object({
+  id: z.string().min(1),
+  capabilities: z.array(CapabilitySchema).optional().default([]),
+});
+
+export const TaskEventTypeSchema = z.enum(['created', 'linked', 'claimed', 'status_changed', 'metadata_changed', 'lease_expired', 'edited', 'unlinked', 'deleted']);
+
+export const TaskEventSchema = z.object({
+  id: z.number(),
+  task_id: z.string(),
+  mission_id: z.string(),
+  event_type: TaskEventTypeSchema,
+  actor: z.nullable(z.string()),
+  old_value: z.unknown(),
+  new_value: z.unknown(),
+  created_at: DateStringSchema,
+});
+
+export const LabelSchema = z.string().trim().min(1).toLowerCase();
+
+export const TaskSortSchema = z.enum(['priority', 'created_at', 'updated_at', 'title']);
+
+/**
+ * Filters for listing tasks. Every filter is optional and they combine with AND;
+ * `labels` matches tasks carrying all of the given labels.
+ */
+export const TaskQuerySchema = z.object({
+  statuses: z.array(TaskStatusSchema).optional(),
+  min_priority: TaskPrioritySchema.optional(),
+  max_priority: TaskPrioritySchema.optional(),
+  assignee: z.string().optional(),
+  labels: z.array(LabelSchema).optional(),
+  created_after: DateStringSchema.optional(),
+  created_before: DateStringSchema.optional(),
+  updated_after: DateStringSchema.optional(),
+  updated_before: DateStringSchema.optional(),
+  text: z.string().trim().min(1).optional(),
+  sort: TaskSortSchema.optional().default('priority'),
+  order: z.enum(['asc', 'desc']).optional().default('asc'),
+  limit: z.number().int().min(1).max(500).optional().default(50),
+  cursor: z.string().optional(),
+});
+
+export const SearchTasksInputSchema = z.object({
+  query: z.string().trim().min(1),
+  /** Restrict matches to one mission; omit to search every mission. */
+  mission_id: z.string().optional(),
+  limit: z.number().int().min(1).max(100).optional().default(20),
+});
+
+export const ReadyTaskFiltersSchema = z.object({
+  min_priority: TaskPrioritySchema.optional(),
+  max_priority: TaskPrioritySchema.optional(),
+  exclude_task_ids: z.array(z.string()).optional(),
+  capabilities: z.array(CapabilitySchema).optional(),
+  agent_id: z.string().optional(),
+});
+
 export const CreateTaskInputSchema = z.object({
   mission_id: z.string(),
   title: z.string(),
@@ -43,4 +141,148 @@ export const CreateTaskInputSchema = z.object({
   assignee: z.nullable(z.string()).optional().default(null),
   acceptance_criteria: z.union([z.string(), z.null()]).optional(),
   metadata: z.record(z.string(), z.unknown()).optional().default({}),
-});
\ No newline at end of file
+  max_attempts: z.number().int().min(1).optional(),
+  parent_id: z.nullable(z.string()).optional(),
+  required_capabilities: z.array(CapabilitySchema).optional(),
+  labels: z.array(LabelSchema).optional(),
+});
+
+export const RenameMissionInputSchema = z.object({
+  mission_id: z.string(),
+  title: z.string().trim().min(1),
+});
+
+export const EditTaskInputSchema = z.object({
+  title: z.string().min(1).optional(),
+  description: z.string().optional(),
+  priority: TaskPrioritySchema.optional(),
+  acceptance_criteria: z.union([z.string(), z.null()]).optional(),
+  required_capabilities: z.array(CapabilitySchema).optional(),
+  labels: z.array(LabelSchema).optional(),
+}).refine(fields => Object.values(fields).some(v => v !== undefined), {
+  message: 'At least one field must be provided',
+});
+
+export const PlanTaskInputSchema = z.object({
+  key: z.string().min(1),
+  title: z.string().min(1),
+  description: z.string().optional(),
+  priority: TaskPrioritySchema.optional(),
+  acceptance_criteria: z.string().optional(),
+  metadata: z.record(z.string(), z.unknown()).optional(),
+  max_attempts: z.number().int().min(1).optional(),
+  parent: z.string().min(1).optional(),
+  required_capabilities: z.array(CapabilitySchema).optional(),
+  labels: z.array(LabelSchema).optional(),
+});
+
+export const PlanEdgeInputSchema = z.object({
+  blocker: z.string().min(1),
+  blocked: z.string().min(1),
+}).refine(edge => edge.blocker !== edge.blocked, {
+  message: 'A task cannot block itself',
+});
+
+/**
+ * A whole plan: tasks carry local keys, and edges or parents refer to either
+ * those keys or ids of tasks already in the mission.
+ */
+export const SubmitPlanInputSchema = z.object({
+  tasks: z.array(PlanTaskInputSchema).min(1),
+  edges: z.array(PlanEdgeInputSchema).optional(),
+}).superRefine((plan, ctx) => {
+  const seen = new Set<string>();
+  plan.tasks.forEach((task, index) => {
+    if (seen.has(task.key)) {
+      ctx.addIssue({ code: 'custom', message: `Duplicate task key: ${task.key}`, path: ['tasks', index, 'key'] });
+    }
+    seen.add(task.key);
+  });
+});
+
+export const MISSION_EXPORT_VERSION = 1;
+
+/**
+ * A task as written to an export: everything but the mission it lives in and
+ * runtime state (leases, readiness counters) that is rebuilt on import.
+ */
+export const ExportedTaskSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  description: z.string().default(''),
+  status: TaskStatusSchema.default('pending'),
+  priority: TaskPrioritySchema.default(2),
+  assignee: z.nullable(z.string()).default(null),
+  acceptance_criteria: z.nullable(z.string()).default(null),
+  metadata: z.record(z.string(), z.unknown()).default({}),
+  max_attempts: z.number().int().min(1).default(1),
+  attempts: z.number().int().min(0).default(0),
+  blocked_by: z.nullable(z.string()).default(null),
+  parent_id: z.nullable(z.string()).default(null),
+  required_capabilities: z.array(CapabilitySchema).default([]),
+  labels: z.array(LabelSchema).default([]),
+  created_at: DateStringSchema,
+  updated_at: DateStringSchema,
+});
+
+/**
+ * Portable snapshot of one mission. Every task id referenced by a parent,
+ * `blocked_by` or dependency must belong to the snapshot.
+ */
+export const MissionExportSchema = z.object({
+  format: z.literal('mission-control'),
+  version: z.number().int().min(1).refine(v => v <= MISSION_EXPORT_VERSION, {
+    message: `Export version is newer than the supported version ${MISSION_EXPORT_VERSION}`,
+  }),
+  exported_at: DateStringSchema,
+  mission: MissionSchema,
+  tasks: z.array(ExportedTaskSchema),
+  dependencies: z.array(z.object({
+    blocker_id: z.string().min(1),
+    blocked_id: z.string().min(1),
+  })),
+}).superRefine((doc, ctx) => {
+  const ids = new Set<string>();
+  doc.tasks.forEach((task, index) => {
+    if (ids.has(task.id)) {
+      ctx.addIssue({ code: 'custom', message: `Duplicate task id: ${task.id}`, path: ['tasks', index, 'id'] });
+    }
+    ids.add(task.id);
+  });
+  const check = (id: string | null, path: (string | number)[]) => {
+    if (id !== null && !ids.has(id)) {
+      ctx.addIssue({ code: 'custom', message: `Unknown task id: ${id}`, path });
+    }
+  };
+  doc.tasks.forEach((task, index) => {
+    check(task.parent_id, ['tasks', index, 'parent_id']);
+    check(task.blocked_by, ['tasks', index, 'blocked_by']);
+  });
+  doc.dependencies.forEach((d, index) => {
+    check(d.blocker_id, ['dependencies', index, 'blocker_id']);
+    check(d.blocked_id, ['dependencies', index, 'blocked_id']);
+    if (d.blocker_id === d.blocked_id) {
+      ctx.addIssue({ code: 'custom', message: 'A task cannot block itself', path: ['dependencies', index] });
+    }
+  });
+});
+
+export const ImportModeSchema = z.enum(['new', 'merge', 'replace']);
+
+/** An item of the todo list kept by opencode's `todowrite` tool. */
+export const OpencodeTodoSchema = z.object({
+  id: z.string().optional(),
+  content: z.string().trim().min(1),
+  status: z.enum(['pending', 'in_progress', 'completed', 'cancelled']).default('pending'),
+  priority: z.enum(['high', 'medium', 'low']).default('medium'),
+});
+
+export const UnlinkTasksInputSchema = z.object({
+  blocker_id: z.string().min(1),
+  blocked_id: z.string().min(1),
+});
+
+export const DeleteTaskInputSchema = z.object({
+  task_id: z.string().min(1),
+  cascade: z.boolean().optional().default(false),
+});
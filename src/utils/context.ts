@@ -11,3 +11,26 @@ export function getContextMissionTitle(): string {
     const folderName = cwd.split(/[/\\]/).pop() || "unknown-project";
     return folderName;
 }
+
+const DEFAULT_SESSION = "default";
+const sessionMissions = new Map<string, string>();
+
+/**
+ * Mission a session is working on: the one it switched to, or else the
+ * mission derived from the working directory.
+ */
+export function getActiveMissionId(sessionId?: string): string {
+    return sessionMissions.get(sessionId ?? DEFAULT_SESSION) ?? getContextMissionId();
+}
+
+/**
+ * Points a session at another mission; `null` reverts to the directory's mission.
+ */
+export function setActiveMissionId(sessionId: string | undefined, missionId: string | null): void {
+    const key = sessionId ?? DEFAULT_SESSION;
+    if (missionId === null) {
+        sessionMissions.delete(key);
+    } else {
+        sessionMissions.set(key, missionId);
+    }
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { MissionStore } from "../../src/persistence/MissionStore";
+import { MissionManager } from "../../src/core/MissionManager";
+import { unlinkSync, existsSync } from "fs";
+import { join } from "path";
+
+describe("Multi-Process Sharing", () => {
+    const WORKER = join(import.meta.dir, "claim-worker.ts");
+    let TEST_DB_PATH: string;
+    let store: MissionStore;
+    let manager: MissionManager;
+
+    beforeEach(() => {
+        TEST_DB_PATH = join(import.meta.dir, `../../temp_test_multiprocess_${Math.random().toString(36).slice(2)}.sqlite`);
+        store = new MissionStore(TEST_DB_PATH);
+        manager = new MissionManager(store);
+        manager.createMission("shared", "Shared Board");
+    });
+
+    afterEach(() => {
+        try { if (store) store.close(); } catch (e) { }
+        [TEST_DB_PATH, `${TEST_DB_PATH}-wal`, `${TEST_DB_PATH}-shm`].forEach(p => {
+            if (existsSync(p)) { try { unlinkSync(p); } catch (e) { } }
+        });
+    });
+
+    it("should hand every task to exactly one process without losing claims", async () => {
+        const tasks = Array.from({ length: 40 }, (_, i) => manager.createTask("shared", `Job ${i}`));
+        const agents = ["proc-1", "proc-2", "proc-3", "proc-4"];
+
+        const workers = agents.map(agentId => Bun.spawn(["bun", WORKER, TEST_DB_PATH, "shared", agentId], { stdout: "pipe", stderr: "pipe" }));
+        const outputs = await Promise.all(workers.map(async worker => ({
+            code: await worker.exited,
+            stdout: await new Response(worker.stdout).text(),
+            stderr: await new Response(worker.stderr).text()
+        })));
+
+        outputs.forEach(o => expect({ code: o.code, stderr: o.stderr }).toEqual({ code: 0, stderr: "" }));
+        const claims = outputs.flatMap((o, i) => (JSON.parse(o.stdout) as string[]).map(id => ({ id, agent: agents[i] })));
+        expect(claims.map(c => c.id).sort()).toEqual(tasks.map(t => t.id).sort());
+
+        expect(store.hasExternalChanges()).toBe(true);
+        for (const claim of claims) {
+            const task = store.getTask(claim.id)!;
+            expect(task.status).toBe("completed");
+            expect(task.metadata.result_summary).toBe(`done by ${claim.agent}`);
+            expect(manager.getTaskHistory(claim.id).filter(e => e.event_type === "claimed").map(e => e.actor)).toEqual([claim.agent]);
+        }
+    }, 60000);
+});
@@ -107,4 +107,59 @@ describe("Concurrency & Isolation", () => {
         resultA.forEach(t => expect(t.mission_id).toBe(m1));
         resultB.forEach(t => expect(t.mission_id).toBe(m2));
     });
+
+    it("should hand out each ready task exactly once with claim_next", async () => {
+
+        const tasks = ["T1", "T2", "T3"].map(title => manager.createTask(missionId, title));
+        const agents = ["agent-1", "agent-2", "agent-3", "agent-4", "agent-5"];
+
+
+        const results = await Promise.allSettled(agents.map(agentId =>
+            new Promise((resolve, reject) => {
+                try {
+                    resolve({ agentId, task: manager.claimNext(missionId, agentId) });
+                } catch (e) {
+                    reject(e);
+                }
+            })
+        ));
+
+
+        expect(results.every(r => r.status === "fulfilled")).toBe(true);
+        const claims = results.map((r: any) => r.value);
+        const claimed = claims.filter(c => c.task !== null);
+        const empty = claims.filter(c => c.task === null);
+
+        expect(claimed.length).toBe(3);
+        expect(empty.length).toBe(2);
+        expect(new Set(claimed.map(c => c.task.id))).toEqual(new Set(tasks.map(t => t.id)));
+
+
+        claimed.forEach(c => {
+            const finalTask = store.getTask(c.task.id);
+            expect(finalTask?.assignee).toBe(c.agentId);
+            expect(finalTask?.status).toBe("in_progress");
+        });
+    });
+
+    it("should not double-claim across separate connections with claim_next", async () => {
+
+        const secondStore = new MissionStore(TEST_DB_PATH);
+        const secondManager = new MissionManager(secondStore);
+        try {
+            manager.createTask(missionId, "Only Task");
+
+
+            const results = await Promise.allSettled([
+                new Promise(resolve => resolve(manager.claimNext(missionId, "agent-A"))),
+                new Promise(resolve => resolve(secondManager.claimNext(missionId, "agent-B")))
+            ]);
+
+
+            const winners = results.filter((r: any) => r.status === "fulfilled" && r.value !== null);
+            expect(winners.length).toBe(1);
+        } finally {
+            secondStore.close();
+        }
+    });
 });
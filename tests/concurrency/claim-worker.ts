@@ -0,0 +1,17 @@
+// Spawned by MultiProcess.test.ts: one opencode-like process draining the
+// shared board. Prints the ids it claimed as JSON on stdout.
+import { MissionStore } from "../../src/persistence/MissionStore";
+import { MissionManager } from "../../src/core/MissionManager";
+
+const [dbPath, missionId, agentId] = process.argv.slice(2);
+const store = new MissionStore(dbPath);
+const manager = new MissionManager(store);
+
+const claimed: string[] = [];
+for (let task = manager.claimNext(missionId, agentId); task; task = manager.claimNext(missionId, agentId)) {
+    claimed.push(task.id);
+    manager.updateTaskStatus(task.id, "completed", `done by ${agentId}`, agentId);
+}
+
+store.close();
+console.log(JSON.stringify(claimed));
@@ -1,9 +1,11 @@
 import { describe, it, expect, beforeEach, afterEach } from "bun:test";
 import { MissionManager } from "../../src/core/MissionManager";
 import { MissionStore } from "../../src/persistence/MissionStore";
+import { ImportedTodo } from "../../src/core/importers";
+import { parsePlanMarkdown } from "../../src/core/markdown";
 import { unlinkSync, existsSync } from "fs";
 import { join } from "path";
-import { CycleDetectedError, InvalidOperationError, TaskLockedError, TaskNotFoundError } from "../../src/types/errors";
+import { CycleDetectedError, InvalidOperationError, InvalidTransitionError, TaskLockedError, TaskNotFoundError, TaskOwnershipError, MissingCapabilityError, MissionNotFoundError, VersionConflictError } from "../../src/types/errors";
 
 describe("Feature: Mission Logic Management", () => {
     const TEST_DB_PATH = join(import.meta.dir, `../../temp_test_manager_bdd_${Math.random().toString(36).slice(2)}.sqlite`);
@@ -120,4 +122,1319 @@ describe("Feature: Mission Logic Management", () => {
             }).toThrow(InvalidOperationError);
         });
     });
+
+    describe("Scenario: Task History", () => {
+        it("should record every mutation with actor and old/new values", () => {
+            manager.createMission("m1", "M1");
+            const blocker = manager.createTask("m1", "Blocker", "", 2, undefined, undefined, "planner");
+            const t1 = manager.createTask("m1", "T1", "", 2, undefined, undefined, "planner");
+            manager.linkTasks(blocker.id, t1.id, "planner");
+            manager.claimTask(blocker.id, "agent-A");
+            manager.updateTaskStatus(blocker.id, "completed", "Done", "agent-A");
+
+            const history = manager.getTaskHistory(blocker.id);
+            expect(history.map(e => e.event_type)).toEqual(["created", "claimed", "status_changed", "metadata_changed"]);
+
+            const claimed = history[1];
+            expect(claimed.actor).toBe("agent-A");
+            expect(claimed.old_value).toEqual({ status: "pending", assignee: null });
+            expect(claimed.new_value).toEqual({ status: "in_progress", assignee: "agent-A" });
+
+            expect(history[3].new_value).toEqual({ result_summary: "Done" });
+
+            const blockedHistory = manager.getTaskHistory(t1.id);
+            expect(blockedHistory.map(e => e.event_type)).toEqual(["created", "linked"]);
+            expect(blockedHistory[1].new_value).toEqual({ blocker_id: blocker.id });
+        });
+
+        it("should not record events for rejected mutations", () => {
+            manager.createMission("m1", "M1");
+            const tA = manager.createTask("m1", "A");
+            const tB = manager.createTask("m1", "B");
+            manager.linkTasks(tA.id, tB.id);
+
+            expect(() => manager.linkTasks(tB.id, tA.id)).toThrow(CycleDetectedError);
+            expect(manager.getTaskHistory(tA.id).map(e => e.event_type)).toEqual(["created"]);
+        });
+
+        it("should throw for unknown tasks", () => {
+            expect(() => manager.getTaskHistory("missing")).toThrow(TaskNotFoundError);
+        });
+    });
+
+    describe("Scenario: Claim Leases", () => {
+        let now: Date;
+        let leasedManager: MissionManager;
+
+        const advance = (ms: number) => {
+            now = new Date(now.getTime() + ms);
+        };
+
+        beforeEach(() => {
+            now = new Date("2024-01-01T00:00:00.000Z");
+            leasedManager = new MissionManager(store, { leaseDurationMs: 60_000, now: () => now });
+            leasedManager.createMission("m1", "M1");
+        });
+
+        it("should set a lease expiry when claiming", () => {
+            const t1 = leasedManager.createTask("m1", "T1");
+            const claimed = leasedManager.claimTask(t1.id, "agent-A");
+            expect(claimed.lease_expires_at).toBe("2024-01-01T00:01:00.000Z");
+        });
+
+        it("should stamp missions and tasks with the same clock as leases", () => {
+            const t1 = leasedManager.createTask("m1", "T1");
+            expect(leasedManager.getMission("m1").created_at).toBe("2024-01-01T00:00:00.000Z");
+            expect(store.getTask(t1.id)).toMatchObject({ created_at: "2024-01-01T00:00:00.000Z", updated_at: "2024-01-01T00:00:00.000Z" });
+        });
+
+        it("should release a lapsed claim when another agent tries to claim", () => {
+            const t1 = leasedManager.createTask("m1", "T1");
+            leasedManager.claimTask(t1.id, "agent-A");
+
+            advance(61_000);
+            const reclaimed = leasedManager.claimTask(t1.id, "agent-B");
+
+            expect(reclaimed.assignee).toBe("agent-B");
+            const history = leasedManager.getTaskHistory(t1.id).map(e => e.event_type);
+            expect(history).toEqual(["created", "claimed", "lease_expired", "claimed"]);
+        });
+
+        it("should return lapsed tasks to the ready list", () => {
+            const t1 = leasedManager.createTask("m1", "T1");
+            leasedManager.claimTask(t1.id, "agent-A");
+            expect(leasedManager.getReadyTasks("m1", 10)).toHaveLength(0);
+
+            advance(60_000);
+            const ready = leasedManager.getReadyTasks("m1", 10);
+
+            expect(ready.map(t => t.id)).toEqual([t1.id]);
+            expect(ready[0].assignee).toBeNull();
+            expect(ready[0].lease_expires_at).toBeNull();
+        });
+
+        it("should keep the claim alive while heartbeats arrive", () => {
+            const t1 = leasedManager.createTask("m1", "T1");
+            leasedManager.claimTask(t1.id, "agent-A");
+
+            advance(50_000);
+            const renewed = leasedManager.heartbeat(t1.id, "agent-A");
+            expect(renewed.lease_expires_at).toBe("2024-01-01T00:01:50.000Z");
+
+            advance(50_000);
+            expect(() => leasedManager.claimTask(t1.id, "agent-B")).toThrow(TaskLockedError);
+        });
+
+        it("should reject heartbeats from other agents or after the lease lapsed", () => {
+            const t1 = leasedManager.createTask("m1", "T1");
+            leasedManager.claimTask(t1.id, "agent-A");
+
+            expect(() => leasedManager.heartbeat(t1.id, "agent-B")).toThrow(TaskLockedError);
+
+            advance(61_000);
+            expect(() => leasedManager.heartbeat(t1.id, "agent-A")).toThrow(InvalidOperationError);
+        });
+    });
+
+    describe("Scenario: Status State Machine", () => {
+        beforeEach(() => {
+            manager.createMission("m1", "M1");
+        });
+
+        it("should treat completed as terminal", () => {
+            const t1 = manager.createTask("m1", "T1");
+            manager.claimTask(t1.id, "agent-A");
+            manager.updateTaskStatus(t1.id, "completed", null, "agent-A");
+
+            expect(() => manager.updateTaskStatus(t1.id, "in_progress", null, "agent-A")).toThrow(InvalidTransitionError);
+            expect(() => manager.claimTask(t1.id, "agent-A")).toThrow(InvalidTransitionError);
+        });
+
+        it("should not let a pending or failed task jump to completed", () => {
+            const t1 = manager.createTask("m1", "T1");
+            expect(() => manager.updateTaskStatus(t1.id, "completed", null, "agent-A")).toThrow(InvalidTransitionError);
+
+            manager.claimTask(t1.id, "agent-A");
+            manager.updateTaskStatus(t1.id, "failed", null, "agent-A");
+            expect(() => manager.updateTaskStatus(t1.id, "completed", null, "agent-B")).toThrow(InvalidTransitionError);
+        });
+
+        it("should only let the assignee complete or fail an in-progress task", () => {
+            const t1 = manager.createTask("m1", "T1");
+            manager.claimTask(t1.id, "agent-A");
+
+            expect(() => manager.updateTaskStatus(t1.id, "completed", null, "agent-B")).toThrow(TaskOwnershipError);
+            expect(() => manager.updateTaskStatus(t1.id, "failed")).toThrow(TaskOwnershipError);
+
+            const done = manager.updateTaskStatus(t1.id, "completed", "Done", "agent-A");
+            expect(done.status).toBe("completed");
+        });
+
+        it("should not let another agent release a claimed task to take it over", () => {
+            const t1 = manager.createTask("m1", "T1");
+            manager.claimTask(t1.id, "agent-A");
+
+            expect(() => manager.updateTaskStatus(t1.id, "pending", null, "agent-B")).toThrow(TaskOwnershipError);
+            expect(() => manager.updateTaskStatus(t1.id, "review", null, "agent-B")).toThrow(TaskOwnershipError);
+            expect(() => manager.claimTask(t1.id, "agent-B")).toThrow(TaskLockedError);
+            expect(store.getTask(t1.id)).toMatchObject({ status: "in_progress", assignee: "agent-A" });
+
+            manager.updateTaskStatus(t1.id, "review", null, "agent-A");
+            expect(() => manager.updateTaskStatus(t1.id, "in_progress", null, "agent-B")).toThrow(TaskOwnershipError);
+            manager.updateTaskStatus(t1.id, "in_progress", null, "agent-A");
+            expect(manager.updateTaskStatus(t1.id, "pending", null, "agent-A").assignee).toBeNull();
+        });
+
+        it("should route starting work through a claim", () => {
+            const blocker = manager.createTask("m1", "Blocker");
+            const t1 = manager.createTask("m1", "T1");
+            manager.linkTasks(blocker.id, t1.id);
+
+            expect(() => manager.updateTaskStatus(blocker.id, "in_progress")).toThrow(InvalidOperationError);
+            expect(() => manager.updateTaskStatus(t1.id, "in_progress", null, "agent-A")).toThrow(InvalidOperationError);
+
+            const started = manager.updateTaskStatus(blocker.id, "in_progress", null, "agent-A");
+            expect(started.assignee).toBe("agent-A");
+        });
+
+        it("should allow reopening failed and blocked tasks to pending", () => {
+            const t1 = manager.createTask("m1", "T1");
+            manager.claimTask(t1.id, "agent-A");
+            manager.updateTaskStatus(t1.id, "failed", null, "agent-A");
+
+            const reopened = manager.updateTaskStatus(t1.id, "pending");
+            expect(reopened.status).toBe("pending");
+            expect(reopened.assignee).toBeNull();
+        });
+    });
+
+    describe("Scenario: Failure Propagation and Retries", () => {
+        const fail = (taskId: string, agentId: string = "agent-A") => {
+            manager.claimTask(taskId, agentId);
+            return manager.updateTaskStatus(taskId, "failed", "boom", agentId);
+        };
+
+        beforeEach(() => {
+            manager.createMission("m1", "M1");
+        });
+
+        it("should return a failed task to pending while attempts remain", () => {
+            const t1 = manager.createTask("m1", "Flaky", "", 2, undefined, undefined, null, { maxAttempts: 3 });
+
+            const first = fail(t1.id);
+            expect(first.status).toBe("pending");
+            expect(first.attempts).toBe(1);
+            expect(first.assignee).toBeNull();
+
+            fail(t1.id);
+            const last = fail(t1.id);
+            expect(last.status).toBe("failed");
+            expect(last.attempts).toBe(3);
+        });
+
+        it("should transitively block dependents once attempts are exhausted", () => {
+            const root = manager.createTask("m1", "Root");
+            const child = manager.createTask("m1", "Child");
+            const grandchild = manager.createTask("m1", "Grandchild");
+            const unrelated = manager.createTask("m1", "Unrelated");
+            manager.linkTasks(root.id, child.id);
+            manager.linkTasks(child.id, grandchild.id);
+
+            fail(root.id);
+
+            for (const id of [child.id, grandchild.id]) {
+                const task = store.getTask(id)!;
+                expect(task.status).toBe("blocked");
+                expect(task.blocked_by).toBe(root.id);
+            }
+            expect(store.getTask(unrelated.id)!.status).toBe("pending");
+        });
+
+        it("should block tasks linked below an already failed task", () => {
+            const root = manager.createTask("m1", "Root");
+            fail(root.id);
+
+            const late = manager.createTask("m1", "Late");
+            manager.linkTasks(root.id, late.id);
+
+            expect(store.getTask(late.id)!.status).toBe("blocked");
+            expect(store.getTask(late.id)!.blocked_by).toBe(root.id);
+        });
+
+        it("should reopen the task and unblock its subtree on retry", () => {
+            const root = manager.createTask("m1", "Root");
+            const child = manager.createTask("m1", "Child");
+            manager.linkTasks(root.id, child.id);
+            fail(root.id);
+
+            const retried = manager.retryTask(root.id, "lead");
+
+            expect(retried.status).toBe("pending");
+            expect(retried.attempts).toBe(0);
+            const unblocked = store.getTask(child.id)!;
+            expect(unblocked.status).toBe("pending");
+            expect(unblocked.blocked_by).toBeNull();
+            expect(manager.getReadyTasks("m1", 10).map(t => t.id)).toEqual([root.id]);
+        });
+
+        it("should keep a task blocked while another upstream failure remains", () => {
+            const rootA = manager.createTask("m1", "Root A");
+            const rootB = manager.createTask("m1", "Root B");
+            const child = manager.createTask("m1", "Child");
+            manager.linkTasks(rootA.id, child.id);
+            manager.linkTasks(rootB.id, child.id);
+            fail(rootA.id);
+            fail(rootB.id, "agent-B");
+
+            manager.retryTask(rootA.id);
+
+            const stillBlocked = store.getTask(child.id)!;
+            expect(stillBlocked.status).toBe("blocked");
+            expect(stillBlocked.blocked_by).toBe(rootB.id);
+        });
+
+        it("should only retry failed tasks", () => {
+            const t1 = manager.createTask("m1", "T1");
+            expect(() => manager.retryTask(t1.id)).toThrow(InvalidOperationError);
+        });
+    });
+
+    describe("Scenario: Claiming the Next Ready Task", () => {
+        beforeEach(() => {
+            manager.createMission("m1", "M1");
+        });
+
+        it("should claim the highest-priority ready task", () => {
+            manager.createTask("m1", "Low", "", 3);
+            const urgent = manager.createTask("m1", "Urgent", "", 0);
+
+            const claimed = manager.claimNext("m1", "agent-A");
+
+            expect(claimed?.id).toBe(urgent.id);
+            expect(claimed?.assignee).toBe("agent-A");
+        });
+
+        it("should skip blocked tasks and respect priority filters", () => {
+            const blocker = manager.createTask("m1", "Blocker", "", 3);
+            const blocked = manager.createTask("m1", "Blocked", "", 0);
+            manager.linkTasks(blocker.id, blocked.id);
+
+            expect(manager.claimNext("m1", "agent-A", { max_priority: 2 })).toBeNull();
+            expect(manager.claimNext("m1", "agent-A")?.id).toBe(blocker.id);
+        });
+
+        it("should return null on an empty board", () => {
+            expect(manager.claimNext("m1", "agent-A")).toBeNull();
+        });
+    });
+
+    describe("Scenario: Parent/Child Hierarchy", () => {
+        let epic: ReturnType<typeof manager.createTask>;
+
+        beforeEach(() => {
+            manager.createMission("m1", "M1");
+            epic = manager.createTask("m1", "Build auth");
+        });
+
+        it("should create and list subtasks", () => {
+            const a = manager.createSubtask(epic.id, "Login form");
+            const b = manager.createSubtask(epic.id, "Session storage");
+
+            expect(a.parent_id).toBe(epic.id);
+            expect(a.mission_id).toBe("m1");
+            expect(manager.getChildren(epic.id).map(t => t.id)).toEqual([a.id, b.id]);
+        });
+
+        it("should never offer the parent itself as ready work", () => {
+            const a = manager.createSubtask(epic.id, "Login form");
+
+            const ready = manager.getReadyTasks("m1", 10).map(t => t.id);
+            expect(ready).toEqual([a.id]);
+            expect(() => manager.claimTask(epic.id, "agent-A")).toThrow(InvalidOperationError);
+            expect(() => manager.updateTaskStatus(epic.id, "blocked")).toThrow(InvalidOperationError);
+        });
+
+        it("should roll up progress and completion from subtasks", () => {
+            const a = manager.createSubtask(epic.id, "Login form");
+            const b = manager.createSubtask(epic.id, "Session storage");
+
+            manager.claimTask(a.id, "agent-A");
+            expect(store.getTask(epic.id)!.status).toBe("in_progress");
+
+            manager.updateTaskStatus(a.id, "completed", null, "agent-A");
+            expect(store.getTask(epic.id)!.status).toBe("in_progress");
+
+            manager.claimTask(b.id, "agent-B");
+            manager.updateTaskStatus(b.id, "completed", null, "agent-B");
+            expect(store.getTask(epic.id)!.status).toBe("completed");
+        });
+
+        it("should show the parent as failed when a subtask fails", () => {
+            const a = manager.createSubtask(epic.id, "Login form");
+            const downstream = manager.createTask("m1", "Deploy");
+            manager.linkTasks(epic.id, downstream.id);
+
+            manager.claimTask(a.id, "agent-A");
+            manager.updateTaskStatus(a.id, "failed", null, "agent-A");
+
+            expect(store.getTask(epic.id)!.status).toBe("failed");
+            expect(store.getTask(downstream.id)!.status).toBe("blocked");
+
+            manager.retryTask(a.id);
+            expect(store.getTask(epic.id)!.status).toBe("pending");
+            expect(store.getTask(downstream.id)!.status).toBe("pending");
+        });
+
+        it("should apply a parent's dependencies to all of its subtasks", () => {
+            const design = manager.createTask("m1", "Design");
+            manager.linkTasks(design.id, epic.id);
+            const a = manager.createSubtask(epic.id, "Login form");
+
+            expect(manager.getReadyTasks("m1", 10).map(t => t.id)).toEqual([design.id]);
+            expect(() => manager.claimTask(a.id, "agent-A")).toThrow(InvalidOperationError);
+
+            manager.claimTask(design.id, "agent-D");
+            manager.updateTaskStatus(design.id, "completed", null, "agent-D");
+            expect(manager.getReadyTasks("m1", 10).map(t => t.id)).toEqual([a.id]);
+        });
+
+        it("should not add subtasks under a claimed parent", () => {
+            manager.claimTask(epic.id, "agent-A");
+
+            expect(() => manager.createSubtask(epic.id, "Login form", "", 2, undefined, undefined, "agent-A")).toThrow(InvalidOperationError);
+            expect(store.getTask(epic.id)).toMatchObject({ status: "in_progress", assignee: "agent-A" });
+            expect(manager.getChildren(epic.id)).toEqual([]);
+        });
+
+        it("should not add subtasks under a parent blocked by a failed task", () => {
+            const upstream = manager.createTask("m1", "Provision");
+            manager.linkTasks(upstream.id, epic.id);
+            manager.claimTask(upstream.id, "agent-A");
+            manager.updateTaskStatus(upstream.id, "failed", null, "agent-A");
+
+            expect(() => manager.createSubtask(epic.id, "Login form")).toThrow(InvalidOperationError);
+            expect(store.getTask(epic.id)).toMatchObject({ status: "blocked", blocked_by: upstream.id });
+        });
+
+        it("should reject links between a task and its own subtasks", () => {
+            const a = manager.createSubtask(epic.id, "Login form");
+            expect(() => manager.linkTasks(a.id, epic.id)).toThrow(CycleDetectedError);
+            expect(() => manager.linkTasks(epic.id, a.id)).toThrow(CycleDetectedError);
+        });
+    });
+
+    describe("Scenario: Editing, Unlinking and Deleting Tasks", () => {
+        beforeEach(() => {
+            manager.createMission("m1", "M1");
+        });
+
+        it("should edit task fields and record the change", () => {
+            const t1 = manager.createTask("m1", "Draft", "old", 3, "old criteria");
+
+            const edited = manager.editTask(t1.id, { title: "Final", priority: 1, acceptance_criteria: null }, "planner");
+
+            expect(edited.title).toBe("Final");
+            expect(edited.priority).toBe(1);
+            expect(edited.acceptance_criteria).toBeNull();
+            expect(edited.description).toBe("old");
+            const last = manager.getTaskHistory(t1.id).pop()!;
+            expect(last.event_type).toBe("edited");
+            expect(last.old_value).toEqual({ title: "Draft", priority: 3, acceptance_criteria: "old criteria" });
+        });
+
+        it("should validate edits through the schema", () => {
+            const t1 = manager.createTask("m1", "Draft");
+            expect(() => manager.editTask(t1.id, {})).toThrow();
+            expect(() => manager.editTask(t1.id, { priority: 9 })).toThrow();
+            expect(() => manager.editTask(t1.id, { title: "" })).toThrow();
+        });
+
+        it("should unlink a dependency and make the task ready again", () => {
+            const a = manager.createTask("m1", "A");
+            const b = manager.createTask("m1", "B");
+            manager.linkTasks(a.id, b.id);
+
+            manager.unlinkTasks(a.id, b.id);
+
+            expect(store.getDependencies(b.id)).toEqual([]);
+            expect(manager.getReadyTasks("m1", 10).map(t => t.id)).toContain(b.id);
+            expect(() => manager.unlinkTasks(a.id, b.id)).toThrow(InvalidOperationError);
+        });
+
+        it("should unblock tasks when the link to a failed task is removed", () => {
+            const root = manager.createTask("m1", "Root");
+            const child = manager.createTask("m1", "Child");
+            manager.linkTasks(root.id, child.id);
+            manager.claimTask(root.id, "agent-A");
+            manager.updateTaskStatus(root.id, "failed", null, "agent-A");
+            expect(store.getTask(child.id)!.status).toBe("blocked");
+
+            manager.unlinkTasks(root.id, child.id);
+
+            expect(store.getTask(child.id)!.status).toBe("pending");
+        });
+
+        it("should refuse to delete a task with dependents unless cascading", () => {
+            const a = manager.createTask("m1", "A");
+            const b = manager.createTask("m1", "B");
+            const c = manager.createTask("m1", "C");
+            manager.linkTasks(a.id, b.id);
+            manager.linkTasks(b.id, c.id);
+
+            expect(() => manager.deleteTask(a.id)).toThrow(InvalidOperationError);
+
+            const deleted = manager.deleteTask(a.id, { cascade: true }, "planner");
+            expect(deleted.sort()).toEqual([a.id, b.id, c.id].sort());
+            expect(manager.getAllTasks("m1")).toEqual([]);
+            expect(manager.getTaskHistory(a.id).pop()!.event_type).toBe("deleted");
+        });
+
+        it("should cascade to tasks that depend on a deleted task's subtasks", () => {
+            const epic = manager.createTask("m1", "Epic");
+            const design = manager.createSubtask(epic.id, "Design");
+            const build = manager.createTask("m1", "Build");
+            const ship = manager.createTask("m1", "Ship");
+            const unrelated = manager.createTask("m1", "Unrelated");
+            manager.linkTasks(design.id, build.id);
+            manager.linkTasks(build.id, ship.id);
+
+            const deleted = manager.deleteTask(epic.id, { cascade: true });
+
+            expect(deleted.sort()).toEqual([epic.id, design.id, build.id, ship.id].sort());
+            expect(manager.getAllTasks("m1").map(t => t.id)).toEqual([unrelated.id]);
+            expect(manager.checkReadinessIntegrity()).toEqual([]);
+        });
+
+        it("should delete a leaf task and roll up its parent", () => {
+            const epic = manager.createTask("m1", "Epic");
+            const done = manager.createSubtask(epic.id, "Done");
+            const abandoned = manager.createSubtask(epic.id, "Abandoned");
+            manager.claimTask(done.id, "agent-A");
+            manager.updateTaskStatus(done.id, "completed", null, "agent-A");
+
+            manager.deleteTask(abandoned.id);
+
+            expect(store.getTask(abandoned.id)).toBeNull();
+            expect(store.getTask(epic.id)!.status).toBe("completed");
+        });
+
+        it("should not delete work another agent is doing", () => {
+            const t1 = manager.createTask("m1", "Busy");
+            manager.claimTask(t1.id, "agent-A");
+            expect(() => manager.deleteTask(t1.id, {}, "agent-B")).toThrow(TaskLockedError);
+        });
+
+        it("should not delete, even by cascade, work another agent has in review", () => {
+            const root = manager.createTask("m1", "Root");
+            const reviewed = manager.createTask("m1", "Reviewed");
+            manager.linkTasks(root.id, reviewed.id);
+            manager.claimTask(root.id, "agent-A");
+            manager.updateTaskStatus(root.id, "completed", null, "agent-A");
+            manager.claimTask(reviewed.id, "agent-A");
+            manager.updateTaskStatus(reviewed.id, "review", null, "agent-A");
+
+            expect(() => manager.deleteTask(reviewed.id, {}, "agent-B")).toThrow(TaskLockedError);
+            expect(() => manager.deleteTask(root.id, { cascade: true }, "agent-B")).toThrow(TaskLockedError);
+            expect(manager.getAllTasks("m1")).toHaveLength(2);
+        });
+    });
+
+    describe("Scenario: Schedule Analysis", () => {
+        it("should compute order, waves and critical path for a mission", () => {
+            manager.createMission("m1", "M1");
+            const design = manager.createTask("m1", "Design");
+            const build = manager.createTask("m1", "Build", "", 2, undefined, { estimate: 5 });
+            const docs = manager.createTask("m1", "Docs");
+            manager.linkTasks(design.id, build.id);
+            manager.linkTasks(design.id, docs.id);
+
+            expect(manager.getTopologicalOrder("m1")[0].id).toBe(design.id);
+            expect(manager.getExecutionWaves("m1").map(w => w.length)).toEqual([1, 2]);
+
+            const weighted = manager.getCriticalPath("m1", { weighted: true });
+            expect(weighted.tasks.map(t => t.id)).toEqual([design.id, build.id]);
+            expect(weighted.length).toBe(6);
+        });
+
+        it("should throw for unknown missions", () => {
+            expect(() => manager.getExecutionWaves("missing")).toThrow();
+        });
+    });
+
+    describe("Scenario: Explaining Blocked Tasks", () => {
+        beforeEach(() => {
+            manager.createMission("m1", "M1");
+        });
+
+        it("should list transitive blockers and the actionable frontier", () => {
+            const schema = manager.createTask("m1", "Schema");
+            const api = manager.createTask("m1", "API");
+            const ui = manager.createTask("m1", "UI");
+            const release = manager.createTask("m1", "Release");
+            manager.linkTasks(schema.id, api.id);
+            manager.linkTasks(api.id, release.id);
+            manager.linkTasks(ui.id, release.id);
+            manager.claimTask(ui.id, "agent-UI");
+
+            const why = manager.explainBlocked(release.id);
+
+            expect(why.ready).toBe(false);
+            expect(why.blockers.map(b => b.id).sort()).toEqual([schema.id, api.id, ui.id].sort());
+            expect(why.blockers.find(b => b.id === schema.id)).toMatchObject({ depth: 2, blocks: api.id });
+            expect(why.frontier.map(b => b.id).sort()).toEqual([schema.id, ui.id].sort());
+            expect(why.frontier.find(b => b.id === ui.id)!.assignee).toBe("agent-UI");
+        });
+
+        it("should include unfinished subtasks of a blocking parent", () => {
+            const epic = manager.createTask("m1", "Epic");
+            const sub = manager.createSubtask(epic.id, "Sub");
+            const after = manager.createTask("m1", "After");
+            manager.linkTasks(epic.id, after.id);
+
+            const why = manager.explainBlocked(after.id);
+
+            expect(why.blockers.map(b => b.id)).toEqual([epic.id, sub.id]);
+            expect(why.frontier.map(b => b.id)).toEqual([sub.id]);
+        });
+
+        it("should report non-dependency reasons", () => {
+            const t1 = manager.createTask("m1", "Claimed");
+            manager.claimTask(t1.id, "agent-A");
+            expect(manager.explainBlocked(t1.id).reasons[0]).toContain("Claimed by agent-A");
+
+            const t2 = manager.createTask("m1", "Broken");
+            manager.claimTask(t2.id, "agent-A");
+            manager.updateTaskStatus(t2.id, "failed", null, "agent-A");
+            expect(manager.explainBlocked(t2.id).reasons[0]).toContain("use retry");
+
+            const t3 = manager.createTask("m1", "Free");
+            expect(manager.explainBlocked(t3.id)).toMatchObject({ ready: true, reasons: [], blockers: [] });
+        });
+    });
+
+    describe("Scenario: Capability-Based Routing", () => {
+        beforeEach(() => {
+            manager.createMission("m1", "M1");
+        });
+
+        it("should only offer tasks whose required capabilities the agent has", () => {
+            manager.registerAgent("agent-FE", ["Frontend"]);
+            manager.registerAgent("agent-DB", ["db"]);
+            const ui = manager.createTask("m1", "Build UI", "", 1, undefined, undefined, null, { requiredCapabilities: ["frontend"] });
+            const schema = manager.createTask("m1", "Write schema", "", 2, undefined, undefined, null, { requiredCapabilities: ["db"] });
+            const docs = manager.createTask("m1", "Write docs", "", 3);
+
+            expect(manager.getReadyTasks("m1", 10, { agent_id: "agent-FE" }).map(t => t.id)).toEqual([ui.id, docs.id]);
+            expect(manager.getReadyTasks("m1", 10, { agent_id: "agent-DB" }).map(t => t.id)).toEqual([schema.id, docs.id]);
+            expect(manager.getReadyTasks("m1", 10).map(t => t.id)).toEqual([ui.id, schema.id, docs.id]);
+
+            expect(manager.claimNext("m1", "agent-DB")!.id).toBe(schema.id);
+            expect(manager.claimNext("m1", "agent-DB")!.id).toBe(docs.id);
+            expect(manager.claimNext("m1", "agent-DB")).toBeNull();
+        });
+
+        it("should not let a capability filter widen what an agent can claim", () => {
+            manager.registerAgent("docs", ["writing"]);
+            const schema = manager.createTask("m1", "Write schema", "", 1, undefined, undefined, null, { requiredCapabilities: ["db"] });
+
+            expect(manager.getReadyTasks("m1", 10, { agent_id: "docs", capabilities: ["db"] })).toEqual([]);
+            expect(manager.claimNext("m1", "docs", { capabilities: ["db"] })).toBeNull();
+            expect(store.getTask(schema.id)?.status).toBe("pending");
+        });
+
+        it("should refuse a claim from an agent missing a capability", () => {
+            manager.registerAgent("agent-FE", ["frontend"]);
+            const task = manager.createTask("m1", "Migrate", "", 2, undefined, undefined, null, { requiredCapabilities: ["db", "frontend"] });
+
+            expect(() => manager.claimTask(task.id, "agent-FE")).toThrow(MissingCapabilityError);
+            expect(() => manager.claimTask(task.id, "unregistered")).toThrow(MissingCapabilityError);
+            expect(store.getTask(task.id)?.status).toBe("pending");
+
+            manager.registerAgent("agent-FE", ["frontend", "db"]);
+            expect(manager.claimTask(task.id, "agent-FE").assignee).toBe("agent-FE");
+        });
+
+        it("should report agent activity and claimed tasks", () => {
+            let clock = new Date("2024-01-01T00:00:00Z");
+            manager = new MissionManager(store, { leaseDurationMs: 60_000, now: () => clock });
+            manager.registerAgent("agent-A", ["db"]);
+            manager.registerAgent("agent-B");
+            const task = manager.createTask("m1", "Work");
+
+            clock = new Date("2024-01-01T00:05:00Z");
+            manager.claimTask(task.id, "agent-A");
+
+            const agents = manager.listAgents();
+            expect(agents.find(a => a.id === "agent-A")).toMatchObject({ active: true, claimed_tasks: [task.id], capabilities: ["db"] });
+            expect(agents.find(a => a.id === "agent-B")).toMatchObject({ active: false, claimed_tasks: [] });
+        });
+
+        it("should keep capabilities when editing other fields", () => {
+            const task = manager.createTask("m1", "Routed", "", 2, undefined, undefined, null, { requiredCapabilities: ["ml"] });
+            manager.editTask(task.id, { title: "Routed task" });
+            expect(store.getTask(task.id)?.required_capabilities).toEqual(["ml"]);
+
+            manager.editTask(task.id, { required_capabilities: [] });
+            expect(store.getTask(task.id)?.required_capabilities).toEqual([]);
+        });
+    });
+
+    describe("Scenario: Managing Multiple Missions", () => {
+        it("should list, rename and archive missions", () => {
+            manager.createMission("m1", "First");
+            manager.createMission("m2", "Second");
+            manager.createTask("m1", "Task");
+
+            expect(manager.listMissions().map(m => [m.id, m.task_count])).toEqual([["m1", 1], ["m2", 0]]);
+
+            expect(manager.renameMission("m2", "  Renamed  ").title).toBe("Renamed");
+            expect(manager.archiveMission("m2").status).toBe("archived");
+            expect(manager.listMissions().map(m => m.id)).toEqual(["m1"]);
+            expect(manager.listMissions({ includeArchived: true }).map(m => m.id)).toEqual(["m1", "m2"]);
+            expect(() => manager.createTask("m2", "Late")).toThrow(InvalidOperationError);
+        });
+
+        it("should refuse to archive a mission with claimed tasks", () => {
+            manager.createMission("m1", "First");
+            const task = manager.createTask("m1", "Busy");
+            manager.claimTask(task.id, "agent-A");
+
+            expect(() => manager.archiveMission("m1")).toThrow(InvalidOperationError);
+            expect(() => manager.renameMission("missing", "x")).toThrow(MissionNotFoundError);
+        });
+
+        it("should complete a mission when its last task completes and reopen it for new work", () => {
+            manager.createMission("m1", "First");
+            const a = manager.createTask("m1", "A");
+            const b = manager.createTask("m1", "B");
+
+            manager.claimTask(a.id, "agent-A");
+            manager.updateTaskStatus(a.id, "completed", null, "agent-A");
+            expect(manager.getMission("m1").status).toBe("active");
+
+            manager.claimTask(b.id, "agent-A");
+            manager.updateTaskStatus(b.id, "completed", null, "agent-A");
+            expect(manager.getMission("m1").status).toBe("completed");
+
+            const c = manager.createTask("m1", "C");
+            expect(manager.getMission("m1").status).toBe("active");
+
+            manager.deleteTask(c.id);
+            expect(manager.getMission("m1").status).toBe("completed");
+        });
+    });
+
+    describe("Scenario: Submitting a Whole Plan", () => {
+        beforeEach(() => {
+            manager.createMission("m1", "M1");
+        });
+
+        it("should create tasks, subtasks and links and map keys to ids", () => {
+            const existing = manager.createTask("m1", "Existing");
+            const result = manager.submitPlan("m1", {
+                tasks: [
+                    { key: "ship", title: "Ship", priority: 1 },
+                    { key: "epic", title: "Epic" },
+                    { key: "build", title: "Build", parent: "epic", required_capabilities: ["backend"] }
+                ],
+                edges: [
+                    { blocker: existing.id, blocked: "epic" },
+                    { blocker: "epic", blocked: "ship" },
+                    { blocker: "epic", blocked: "ship" }
+                ]
+            }, "planner");
+
+            expect(Object.keys(result.ids)).toEqual(["ship", "epic", "build"]);
+            expect(result.tasks.map(t => t.title)).toEqual(["Ship", "Epic", "Build"]);
+            expect(store.getTask(result.ids.build)).toMatchObject({ parent_id: result.ids.epic, required_capabilities: ["backend"] });
+            expect(manager.getDependencies(result.ids.ship)).toEqual([result.ids.epic]);
+            expect(manager.getDependencies(result.ids.epic)).toEqual([existing.id]);
+            expect(manager.getTaskHistory(result.ids.ship).map(e => e.actor)).toEqual(["planner", "planner"]);
+        });
+
+        it("should reject a plan whose edges close a cycle with existing links and write nothing", () => {
+            const a = manager.createTask("m1", "A");
+            const b = manager.createTask("m1", "B");
+            manager.linkTasks(a.id, b.id);
+
+            expect(() => manager.submitPlan("m1", {
+                tasks: [{ key: "x", title: "X" }],
+                edges: [{ blocker: b.id, blocked: "x" }, { blocker: "x", blocked: a.id }]
+            })).toThrow(CycleDetectedError);
+            expect(manager.getAllTasks("m1")).toHaveLength(2);
+        });
+
+        it("should roll back everything when a late step fails", () => {
+            expect(() => manager.submitPlan("m1", {
+                tasks: [{ key: "parent", title: "Parent" }, { key: "child", title: "Child", parent: "parent" }],
+                edges: [{ blocker: "parent", blocked: "child" }]
+            })).toThrow(CycleDetectedError);
+            expect(manager.getAllTasks("m1")).toHaveLength(0);
+        });
+
+        it("should reject unknown references and duplicate keys", () => {
+            expect(() => manager.submitPlan("m1", {
+                tasks: [{ key: "a", title: "A" }],
+                edges: [{ blocker: "a", blocked: "ghost" }]
+            })).toThrow("unknown task 'ghost'");
+            expect(() => manager.submitPlan("m1", {
+                tasks: [{ key: "a", title: "A" }, { key: "a", title: "Again" }]
+            })).toThrow("Duplicate task key");
+            expect(manager.getAllTasks("m1")).toHaveLength(0);
+        });
+    });
+
+    describe("Scenario: Task Detail", () => {
+        it("should return neighbours with statuses and time in the current status", () => {
+            let clock = new Date("2024-01-01T00:00:00Z");
+            manager = new MissionManager(store, { now: () => clock });
+            manager.createMission("m1", "M1");
+            const epic = manager.createTask("m1", "Epic");
+            const design = manager.createTask("m1", "Design");
+            const build = manager.createSubtask(epic.id, "Build");
+            const ship = manager.createTask("m1", "Ship");
+            manager.linkTasks(design.id, build.id);
+            manager.linkTasks(build.id, ship.id);
+
+            clock = new Date("2024-01-01T01:00:00Z");
+            manager.claimTask(design.id, "agent-A");
+            manager.updateTaskStatus(design.id, "completed", "Mockups done", "agent-A");
+            clock = new Date("2024-01-01T03:30:00Z");
+
+            const detail = manager.getTaskDetail(build.id);
+
+            expect(detail.parent).toEqual({ id: epic.id, title: "Epic", status: "pending", assignee: null });
+            expect(detail.blockers).toEqual([{ id: design.id, title: "Design", status: "completed", assignee: "agent-A" }]);
+            expect(detail.dependents.map(d => d.id)).toEqual([ship.id]);
+            expect(detail.status_since).toBe("2024-01-01T00:00:00.000Z");
+            expect(detail.time_in_status_ms).toBe(3.5 * 60 * 60 * 1000);
+
+            const done = manager.getTaskDetail(design.id);
+            expect(done.task.metadata.result_summary).toBe("Mockups done");
+            expect(done.time_in_status_ms).toBe(2.5 * 60 * 60 * 1000);
+            expect(manager.getTaskDetail(epic.id).subtasks.map(s => s.id)).toEqual([build.id]);
+        });
+
+        it("should throw for an unknown task", () => {
+            expect(() => manager.getTaskDetail("missing")).toThrow(TaskNotFoundError);
+        });
+    });
+
+    describe("Scenario: Readiness Counters Stay Consistent", () => {
+        it("should match a full recount after a mixed workload", () => {
+            manager.createMission("m1", "M1");
+            const epic = manager.createTask("m1", "Epic");
+            const [a, b, c] = ["A", "B", "C"].map(title => manager.createSubtask(epic.id, title));
+            const design = manager.createTask("m1", "Design", "", 2, undefined, undefined, null, { maxAttempts: 1 });
+            const ship = manager.createTask("m1", "Ship");
+            manager.linkTasks(design.id, epic.id);
+            manager.linkTasks(a.id, b.id);
+            manager.linkTasks(epic.id, ship.id);
+            expect(manager.checkReadinessIntegrity()).toEqual([]);
+
+            manager.claimTask(design.id, "agent-A");
+            manager.updateTaskStatus(design.id, "failed", null, "agent-A");
+            expect(manager.checkReadinessIntegrity()).toEqual([]);
+
+            manager.retryTask(design.id);
+            manager.claimTask(design.id, "agent-A");
+            manager.updateTaskStatus(design.id, "completed", null, "agent-A");
+            manager.unlinkTasks(a.id, b.id);
+            for (const t of [a, b]) {
+                manager.claimTask(t.id, "agent-A");
+                manager.updateTaskStatus(t.id, "completed", null, "agent-A");
+            }
+            manager.deleteTask(c.id);
+
+            expect(manager.checkReadinessIntegrity()).toEqual([]);
+            expect(manager.getReadyTasks("m1", 10).map(t => t.id)).toEqual([ship.id]);
+        });
+    });
+
+    describe("Scenario: Labels and Paged Queries", () => {
+        beforeEach(() => {
+            manager.createMission("m1", "M1");
+        });
+
+        it("should page through every match exactly once", () => {
+            const created = Array.from({ length: 7 }, (_, i) =>
+                manager.createTask("m1", `Task ${i}`, "", i % 3, undefined, undefined, null, { labels: i % 2 ? ["odd"] : [] }));
+
+            const seen: string[] = [];
+            let cursor: string | undefined;
+            do {
+                const page = manager.queryTasks("m1", { limit: 3, cursor });
+                expect(page.tasks.length).toBeLessThanOrEqual(3);
+                seen.push(...page.tasks.map(t => t.id));
+                cursor = page.next_cursor ?? undefined;
+            } while (cursor);
+
+            expect(seen.sort()).toEqual(created.map(t => t.id).sort());
+            expect(manager.queryTasks("m1", { labels: ["ODD"] }).tasks).toHaveLength(3);
+        });
+
+        it("should reject a cursor from a different sort", () => {
+            Array.from({ length: 3 }, (_, i) => manager.createTask("m1", `Task ${i}`));
+            const { next_cursor } = manager.queryTasks("m1", { limit: 1, sort: "title" });
+
+            expect(() => manager.queryTasks("m1", { cursor: next_cursor!, sort: "priority" })).toThrow(InvalidOperationError);
+            expect(() => manager.queryTasks("m1", { cursor: "garbage" })).toThrow(InvalidOperationError);
+        });
+
+        it("should replace labels on edit and record the change", () => {
+            const task = manager.createTask("m1", "Labelled", "", 2, undefined, undefined, null, { labels: ["a"] });
+            const edited = manager.editTask(task.id, { labels: ["b", "c"] }, "agent-A");
+
+            expect(edited.labels).toEqual(["b", "c"]);
+            const event = manager.getTaskHistory(task.id).find(e => e.event_type === "edited")!;
+            expect(event.old_value).toEqual({ labels: ["a"] });
+            expect(event.new_value).toEqual({ labels: ["b", "c"] });
+        });
+    });
+
+    describe("Scenario: Searching Tasks", () => {
+        beforeEach(() => {
+            manager.createMission("m1", "M1");
+            manager.createMission("m2", "M2");
+            manager.createTask("m1", "Fix the login redirect", "Users bounce back to /login");
+            manager.createTask("m1", "Write release notes");
+            manager.createTask("m2", "Redirect legacy URLs");
+        });
+
+        it("should match every word by prefix, tolerating punctuation", () => {
+            expect(manager.searchTasks("log-in redir", { mission_id: "m1" })).toHaveLength(0);
+            expect(manager.searchTasks("redir: login!", { mission_id: "m1" }).map(h => h.task.title)).toEqual(["Fix the login redirect"]);
+            expect(manager.searchTasks("\"redirect OR", { mission_id: "m1" })).toHaveLength(0);
+        });
+
+        it("should search one mission or all of them", () => {
+            expect(manager.searchTasks("redirect", { mission_id: "m1" })).toHaveLength(1);
+            expect(manager.searchTasks("redirect").map(h => h.task.mission_id).sort()).toEqual(["m1", "m2"]);
+            expect(manager.searchTasks("redirect", { limit: 1 })).toHaveLength(1);
+        });
+
+        it("should reject queries without words and unknown missions", () => {
+            expect(() => manager.searchTasks("?!")).toThrow(InvalidOperationError);
+            expect(() => manager.searchTasks("redirect", { mission_id: "nope" })).toThrow(MissionNotFoundError);
+        });
+    });
+
+    describe("Scenario: Exporting and Importing Missions", () => {
+        const clock = new Date("2024-06-01T00:00:00.000Z");
+        let epic: string, design: string, build: string, ship: string;
+
+        beforeEach(() => {
+            manager = new MissionManager(store, { now: () => clock });
+            manager.createMission("m1", "Launch");
+            epic = manager.createTask("m1", "Epic", "", 1, undefined, undefined, null, { labels: ["launch"] }).id;
+            design = manager.createTask("m1", "Design", "Sketch it", 1, "Approved", { estimate: 3 }, null, { parentId: epic, requiredCapabilities: ["ux"] }).id;
+            build = manager.createTask("m1", "Build", "", 2, undefined, undefined, null, { parentId: epic, maxAttempts: 3 }).id;
+            ship = manager.createTask("m1", "Ship", "", 0).id;
+            manager.linkTasks(design, build);
+            manager.linkTasks(epic, ship);
+            manager.registerAgent("agent-A", ["ux"]);
+            manager.claimTask(design, "agent-A");
+            manager.updateTaskStatus(design, "completed", "Mockups done", "agent-A");
+        });
+
+        it("should round-trip into an empty database unchanged", () => {
+            const exported = manager.exportMission("m1");
+            expect(exported.version).toBe(1);
+            expect(exported.tasks.map(t => t.id).sort()).toEqual([epic, design, build, ship].sort());
+            expect(exported.tasks.find(t => t.id === design)!.metadata).toEqual({ estimate: 3, result_summary: "Mockups done" });
+
+            const other = new MissionStore(":memory:");
+            const copy = new MissionManager(other, { now: () => clock });
+            const result = copy.importMission(JSON.parse(JSON.stringify(exported)), { mode: "merge" });
+
+            expect(result.conflicts).toEqual([]);
+            expect(copy.exportMission("m1")).toEqual(exported);
+            expect(copy.getReadyTasks("m1", 10).map(t => t.id)).toEqual([build]);
+            expect(other.checkBlockerCounts()).toEqual([]);
+            other.close();
+        });
+
+        it("should copy under fresh ids with every reference remapped in 'new' mode", () => {
+            const exported = manager.exportMission("m1");
+            const result = manager.importMission(exported, { mode: "new", missionId: "m2" });
+
+            expect(result.mission.id).toBe("m2");
+            expect(Object.keys(result.ids)).toEqual(exported.tasks.map(t => t.id));
+            expect(Object.entries(result.ids).every(([from, to]) => from !== to)).toBe(true);
+
+            const rename = (text: string) => Object.entries(result.ids).reduce((s, [from, to]) => s.split(from).join(to), text);
+            const { mission, ...copied } = manager.exportMission("m2");
+            const { mission: _, ...original } = exported;
+            expect(copied).toEqual(JSON.parse(rename(JSON.stringify(original))));
+            expect(manager.getReadyTasks("m2", 10).map(t => t.id)).toEqual([result.ids[build]]);
+            expect(manager.getTaskHistory(result.ids[ship])[0].new_value).toMatchObject({ imported_from: ship });
+        });
+
+        it("should invent a mission id in 'new' mode unless one was requested", () => {
+            const exported = manager.exportMission("m1");
+
+            expect(manager.importMission(exported, { mode: "new" }).mission.id).not.toBe("m1");
+            expect(() => manager.importMission(exported, { mode: "new", missionId: "m1" })).toThrow(InvalidOperationError);
+        });
+
+        it("should add missing work and report conflicts in 'merge' mode", () => {
+            const exported = manager.exportMission("m1");
+            manager.editTask(ship, { title: "Ship it" });
+            manager.deleteTask(build);
+            manager.createMission("m2", "Other");
+            const foreign = manager.createTask("m2", "Foreign").id;
+            exported.tasks.push({ ...exported.tasks[3], id: foreign, title: "Docs" });
+
+            const result = manager.importMission(exported, { mode: "merge" });
+
+            expect(result.created).toEqual([build, result.ids[foreign]]);
+            expect(result.ids[foreign]).not.toBe(foreign);
+            // The epic rolled up to completed once its unfinished subtask was deleted.
+            expect(result.conflicts.map(c => c.task_id).sort()).toEqual([epic, ship, foreign].sort());
+            expect(manager.getTaskDetail(ship).task.title).toBe("Ship it");
+            expect(manager.getDependencies(build)).toEqual([design]);
+            expect(manager.getTaskDetail(epic).task.status).toBe("in_progress");
+        });
+
+        it("should skip merged edges that would close a cycle", () => {
+            const exported = manager.exportMission("m1");
+            manager.unlinkTasks(epic, ship);
+            manager.linkTasks(ship, epic);
+
+            const result = manager.importMission(exported, { mode: "merge" });
+
+            expect(result.conflicts).toEqual([{ task_id: ship, reason: `dependency on ${epic} would create a cycle; skipped` }]);
+            expect(manager.getDependencies(ship)).toEqual([]);
+        });
+
+        it("should skip edges between a task and its own ancestor or descendant", () => {
+            const exported = manager.exportMission("m1");
+            const dependencies = [...exported.dependencies, { blocker_id: epic, blocked_id: build }, { blocker_id: design, blocked_id: epic }];
+
+            const result = manager.importMission({ ...exported, dependencies }, { mode: "new" });
+
+            expect(result.conflicts).toEqual([
+                { task_id: build, reason: `dependency on ${epic} is within its subtask hierarchy; skipped` },
+                { task_id: epic, reason: `dependency on ${design} is within its subtask hierarchy; skipped` }
+            ]);
+            expect(manager.getDependencies(result.ids[build])).toEqual([result.ids[design]]);
+            expect(manager.getDependencies(result.ids[epic])).toEqual([]);
+        });
+
+        it("should swap out the mission's tasks in 'replace' mode", () => {
+            const exported = manager.exportMission("m1");
+            const extra = manager.createTask("m1", "Local only").id;
+            manager.renameMission("m1", "Renamed");
+
+            manager.importMission(exported, { mode: "replace" });
+
+            expect(manager.exportMission("m1")).toEqual(exported);
+            expect(() => manager.getTaskDetail(extra)).toThrow(TaskNotFoundError);
+
+            manager.claimTask(build, "agent-B");
+            expect(() => manager.importMission(exported, { mode: "replace" })).toThrow(InvalidOperationError);
+        });
+
+        it("should give imported claims a fresh lease", () => {
+            manager.claimTask(build, "agent-B");
+            const exported = manager.exportMission("m1");
+            const result = manager.importMission(exported, { mode: "new" });
+
+            const copy = manager.getTaskDetail(result.ids[build]).task;
+            expect(copy.assignee).toBe("agent-B");
+            expect(copy.lease_expires_at).toBe(new Date(clock.getTime() + 30 * 60 * 1000).toISOString());
+        });
+
+        it("should reject invalid documents before writing anything", () => {
+            const exported = manager.exportMission("m1");
+            const missions = manager.listMissions().length;
+
+            expect(() => manager.importMission({ ...exported, version: 2 }, { mode: "new" })).toThrow(/newer than the supported version/);
+            expect(() => manager.importMission({ ...exported, dependencies: [{ blocker_id: ship, blocked_id: "ghost" }] }, { mode: "new" })).toThrow(/Unknown task id: ghost/);
+            expect(() => manager.importMission({ ...exported, dependencies: [...exported.dependencies, { blocker_id: ship, blocked_id: epic }] }, { mode: "new" })).toThrow(CycleDetectedError);
+            expect(manager.listMissions()).toHaveLength(missions);
+        });
+    });
+
+    describe("Scenario: Syncing a Markdown Plan", () => {
+        let design: string, build: string;
+        const line = (markdown: string, id: string) => markdown.split("\n").find(l => l.includes(`id:${id} `))!;
+
+        beforeEach(() => {
+            manager.createMission("m1", "Launch");
+            design = manager.createTask("m1", "Design", "", 1).id;
+            build = manager.createTask("m1", "Build", "", 2).id;
+        });
+
+        it("should report edits in a dry run without applying them", () => {
+            const plan = manager.renderPlanMarkdown("m1");
+            const edited = plan
+                .replace(line(plan, design), line(plan, design).replace("- [ ] Design `P1`", "- [x] Design API `P0`"))
+                .replace(line(plan, build), line(plan, build).replace("`pending`", `\`after: ${design}\``) + "\n  - [ ] Write tests `P1`");
+
+            const result = manager.syncPlanMarkdown("m1", edited, { dryRun: true });
+
+            expect(result.applied).toBe(false);
+            expect(result.conflicts).toEqual([]);
+            expect(result.changes).toEqual([
+                { type: "edit", task_id: design, changes: { title: "Design API", priority: 0 } },
+                { type: "complete", task_id: design },
+                { type: "link", blocker_id: design, blocked_id: build },
+                { type: "create", line: expect.any(Number), title: "Write tests", priority: 1, parent_id: build, parent_line: null, after: [], completed: false }
+            ]);
+            expect(manager.renderPlanMarkdown("m1")).toBe(plan);
+        });
+
+        it("should apply ticks, edits, links and new nested lines", () => {
+            const plan = manager.renderPlanMarkdown("m1");
+            const edited = plan.replace(line(plan, design), line(plan, design).replace("- [ ]", "- [x]"))
+                + `- [ ] Release \`after: ${design}\`\n  - [x] Tag it\n`;
+
+            const result = manager.syncPlanMarkdown("m1", edited, { actor: "human" });
+
+            expect(result.applied).toBe(true);
+            const [release, tag] = Object.values(result.created);
+            expect(manager.getTaskDetail(design).task.status).toBe("completed");
+            expect(manager.getTaskDetail(tag).task).toMatchObject({ status: "completed", parent_id: release });
+            expect(manager.getDependencies(release)).toEqual([design]);
+            expect(manager.getTaskHistory(design).map(e => e.actor)).toContain("human");
+            expect(manager.syncPlanMarkdown("m1", manager.renderPlanMarkdown("m1")).changes).toEqual([]);
+        });
+
+        it("should list siblings in creation order on every render", () => {
+            const ids = ["A", "B", "C", "D"].map(title => manager.createTask("m1", title).id);
+            const order = () => parsePlanMarkdown(manager.renderPlanMarkdown("m1")).items.map(i => i.id);
+
+            expect(order()).toEqual([design, build, ...ids]);
+            expect(order()).toEqual(order());
+        });
+
+        it("should keep reordered lines in their new order and remove dropped dependencies", () => {
+            manager.linkTasks(design, build);
+            const plan = manager.renderPlanMarkdown("m1");
+            const [first, second] = [line(plan, design), line(plan, build)];
+            const reordered = plan.replace(first, "@@").replace(second, first).replace("@@", second);
+
+            const result = manager.syncPlanMarkdown("m1", reordered);
+            expect(result.changes).toEqual([{ type: "reorder", parent_id: null, lines: [5, 6] }]);
+            const rendered = manager.renderPlanMarkdown("m1");
+            expect(rendered.indexOf(`id:${build} `)).toBeLessThan(rendered.indexOf(`id:${design} `));
+            expect(manager.syncPlanMarkdown("m1", rendered).changes).toEqual([]);
+
+            manager.syncPlanMarkdown("m1", rendered.replace(` \`after: ${design}\``, ""));
+            expect(manager.getDependencies(build)).toEqual([]);
+        });
+
+        it("should report ticks that cannot be applied and still apply the rest", () => {
+            manager.linkTasks(design, build);
+            const broken = manager.createTask("m1", "Broken").id;
+            manager.claimTask(broken, "agent-A");
+            manager.updateTaskStatus(broken, "failed", null, "agent-A");
+            const plan = manager.renderPlanMarkdown("m1");
+            const edited = plan
+                .replace(line(plan, build), line(plan, build).replace("- [ ]", "- [x]"))
+                .replace(line(plan, broken), line(plan, broken).replace("- [ ]", "- [x]"))
+                + `- [x] Announce \`after: ${build}\`\n- [ ] Retro\n`;
+
+            const preview = manager.syncPlanMarkdown("m1", edited, { dryRun: true });
+            expect(Object.fromEntries(preview.conflicts.map(c => [c.task_id ?? c.line, c.reason]))).toEqual({
+                [broken]: "failed tasks cannot be completed",
+                [build]: `cannot be completed before ${design}`,
+                [preview.conflicts.find(c => c.task_id === null)!.line]: `cannot be completed before ${build}`
+            });
+
+            const result = manager.syncPlanMarkdown("m1", edited);
+            expect(result.conflicts).toEqual(preview.conflicts);
+            const created = Object.values(result.created).map(id => manager.getTaskDetail(id).task);
+            expect(created.map(t => [t.title, t.status])).toEqual([["Announce", "pending"], ["Retro", "pending"]]);
+            expect(manager.getDependencies(created[0].id)).toEqual([build]);
+            expect(manager.getTaskDetail(build).task.status).toBe("pending");
+        });
+
+        it("should complete a task whose blocker is ticked in the same file", () => {
+            manager.linkTasks(design, build);
+            const plan = manager.renderPlanMarkdown("m1");
+            const edited = plan.replace(/- \[ \]/g, "- [x]");
+
+            const result = manager.syncPlanMarkdown("m1", edited);
+            expect(result.conflicts).toEqual([]);
+            expect(manager.getTaskDetail(build).task.status).toBe("completed");
+        });
+
+        it("should report conflicts instead of overwriting", () => {
+            manager.linkTasks(design, build);
+            const plan = manager.renderPlanMarkdown("m1");
+            manager.editTask(design, { title: "Design v2" });
+            manager.claimTask(design, "agent-A");
+            manager.updateTaskStatus(design, "completed", null, "agent-A");
+
+            const edited = plan
+                .replace("] Design `P1`", "] Design v3 `P1`")
+                .replace(line(plan, build), line(plan, build).replace("- [ ]", "- [x]"))
+                + `- [ ] Nested wrongly \`after: ghost\`\n`;
+            const result = manager.syncPlanMarkdown("m1", edited);
+
+            expect(result.conflicts.map(c => [c.task_id, c.reason])).toEqual([
+                [design, "changed in both the plan and the mission"],
+                [null, "after: refers to unknown tasks ghost"]
+            ]);
+            expect(result.changes).toEqual([{ type: "complete", task_id: build }]);
+            expect(manager.getTaskDetail(design).task.title).toBe("Design v2");
+            expect(manager.getTaskDetail(build).task.status).toBe("completed");
+        });
+
+        it("should refuse to reopen completed tasks or finish someone else's claim", () => {
+            manager.claimTask(build, "agent-A");
+            manager.claimTask(design, "agent-B");
+            manager.updateTaskStatus(design, "completed", null, "agent-B");
+            const plan = manager.renderPlanMarkdown("m1");
+            const edited = plan
+                .replace(line(plan, design), line(plan, design).replace("- [x]", "- [ ]"))
+                .replace(line(plan, build), line(plan, build).replace("- [ ]", "- [x]"));
+
+            const conflicts = manager.syncPlanMarkdown("m1", edited).conflicts;
+            expect(Object.fromEntries(conflicts.map(c => [c.task_id, c.reason]))).toEqual({
+                [design]: "completed tasks cannot be reopened",
+                [build]: "claimed by agent-A"
+            });
+        });
+
+        it("should report links the sync would refuse and still apply the rest", () => {
+            manager.linkTasks(design, build);
+            const plan = manager.renderPlanMarkdown("m1");
+            const edited = plan
+                .replace(line(plan, design), line(plan, design).replace("`pending`", `\`after: ${build}\``).replace("Design", "Design API"))
+                + `- [ ] Child \`after: ${build}\`\n`;
+            const preview = manager.syncPlanMarkdown("m1", edited, { dryRun: true });
+            expect(preview.conflicts.map(c => [c.task_id, c.reason])).toEqual([[design, `after: ${build} would create a cycle`]]);
+            expect(preview.changes.map(c => c.type)).toEqual(["edit", "create"]);
+
+            const result = manager.syncPlanMarkdown("m1", edited);
+            expect(result.conflicts).toEqual(preview.conflicts);
+            expect(manager.getTaskDetail(design).task.title).toBe("Design API");
+            expect(manager.getDependencies(design)).toEqual([]);
+
+            const nested = manager.renderPlanMarkdown("m1").replace(line(manager.renderPlanMarkdown("m1"), build), l => `${l}\n  - [ ] Subtask \`after: ${build}\``);
+            const refused = manager.syncPlanMarkdown("m1", nested, { dryRun: true }).conflicts;
+            expect(refused.map(c => c.reason)).toEqual([`after: ${build} is in the same subtask hierarchy`]);
+            expect(manager.syncPlanMarkdown("m1", nested).conflicts).toEqual(refused);
+        });
+
+        it("should reverse a dependency edited on both of its lines", () => {
+            manager.linkTasks(design, build);
+            const plan = manager.renderPlanMarkdown("m1");
+            const edited = plan
+                .replace(line(plan, build), line(plan, build).replace(` \`after: ${design}\``, ""))
+                .replace(line(plan, design), line(plan, design).replace("`pending`", `\`after: ${build}\``));
+
+            expect(manager.syncPlanMarkdown("m1", edited).conflicts).toEqual([]);
+            expect(manager.getDependencies(design)).toEqual([build]);
+            expect(manager.getDependencies(build)).toEqual([]);
+        });
+
+        it("should report new lines nested under a completed task", () => {
+            manager.claimTask(design, "agent-A");
+            manager.updateTaskStatus(design, "completed", null, "agent-A");
+            const plan = manager.renderPlanMarkdown("m1");
+            const edited = plan.replace(line(plan, design), l => `${l}\n  - [ ] Follow-up\n    - [ ] Deeper`);
+
+            const preview = manager.syncPlanMarkdown("m1", edited, { dryRun: true });
+            expect(preview.conflicts.map(c => c.reason)).toEqual([`cannot add subtasks to completed task ${design}`, "its parent line is skipped"]);
+            expect(preview.changes).toEqual([]);
+
+            const result = manager.syncPlanMarkdown("m1", edited);
+            expect(result.conflicts).toEqual(preview.conflicts);
+            expect(manager.getAllTasks("m1").map(t => t.title)).toEqual(["Design", "Build"]);
+        });
+
+        it("should compare titles the way the plan file writes them", () => {
+            const messy = manager.createTask("m1", "  Fix   the\nlogin  ", "", 2).id;
+            const plan = manager.renderPlanMarkdown("m1");
+            expect(line(plan, messy)).toContain("] Fix the login `P2`");
+
+            const result = manager.syncPlanMarkdown("m1", plan.replace("] Fix the login `P2`", "] Fix the login `P0`"));
+            expect(result.conflicts).toEqual([]);
+            expect(result.changes).toEqual([{ type: "edit", task_id: messy, changes: { priority: 0 } }]);
+        });
+
+        it("should reject a plan written for another mission", () => {
+            manager.createMission("m2", "Other");
+            expect(() => manager.syncPlanMarkdown("m2", manager.renderPlanMarkdown("m1"))).toThrow(InvalidOperationError);
+        });
+    });
+
+    describe("Scenario: Importing Todo Lists", () => {
+        const todo = (title: string, overrides: Partial<ImportedTodo> = {}): ImportedTodo => ({
+            title, priority: 2, completed: false, source: "comment", file: "src/a.ts", line: 3, key: `comment:src/a.ts:TODO:${title.toLowerCase()}`, ...overrides
+        });
+
+        beforeEach(() => {
+            manager.createMission("m1", "M1");
+        });
+
+        it("should create tasks with their source in metadata", () => {
+            const result = manager.importTodos("m1", [todo("Handle errors"), todo("Ship", { completed: true, source: "opencode", file: null, line: null, key: "opencode:7" })]);
+
+            const [handle, ship] = result.created;
+            expect(handle).toMatchObject({ status: "pending", description: "Imported from src/a.ts:3" });
+            expect(handle.metadata).toEqual({ source: "comment", source_file: "src/a.ts", source_line: 3, import_key: "comment:src/a.ts:TODO:handle errors" });
+            expect(ship.status).toBe("completed");
+            expect(manager.getTaskHistory(ship.id).every(e => e.actor === "import")).toBe(true);
+        });
+
+        it("should be idempotent and skip titles that already exist", () => {
+            manager.createTask("m1", "  write DOCS ");
+            const batch = [todo("Handle errors"), todo("Write docs"), todo("Handle errors", { line: 9 })];
+
+            const first = manager.importTodos("m1", batch);
+            expect(first.created.map(t => t.title)).toEqual(["Handle errors"]);
+            expect(first.skipped.map(s => s.reason)).toEqual(["a task with this title exists", "already imported"]);
+
+            manager.editTask(first.created[0].id, { title: "Handle parse errors" });
+            const second = manager.importTodos("m1", batch);
+            expect(second.created).toEqual([]);
+            expect(manager.getAllTasks("m1")).toHaveLength(2);
+        });
+
+        it("should keep every location of a title repeated within one import", () => {
+            const batch = [
+                todo("Handle errors"),
+                todo("Handle errors", { file: "src/b.ts", key: "comment:src/b.ts:TODO:handle errors" }),
+                todo("Handle errors", { line: 9, key: "comment:src/a.ts:TODO:handle errors#2" })
+            ];
+
+            const result = manager.importTodos("m1", batch);
+            expect(result.skipped).toEqual([]);
+            expect(result.created.map(t => [t.metadata.source_file, t.metadata.source_line])).toEqual([["src/a.ts", 3], ["src/b.ts", 3], ["src/a.ts", 9]]);
+            expect(manager.importTodos("m1", batch).created).toEqual([]);
+        });
+    });
+
+    describe("Scenario: Optimistic Concurrency", () => {
+        beforeEach(() => {
+            manager.createMission("m1", "M1");
+        });
+
+        it("should run a write only while the task is at the expected version", () => {
+            const task = manager.createTask("m1", "Draft");
+            expect(task.version).toBe(1);
+
+            const edited = manager.withExpectedVersion(task.id, 1, () => manager.editTask(task.id, { title: "Draft v2" }));
+            expect(edited.version).toBe(2);
+
+            expect(() => manager.withExpectedVersion(task.id, 1, () => manager.editTask(task.id, { title: "Stale" }))).toThrow(VersionConflictError);
+            expect(store.getTask(task.id)?.title).toBe("Draft v2");
+            expect(() => manager.withExpectedVersion("missing", 1, () => null)).toThrow(TaskNotFoundError);
+            expect(manager.withExpectedVersion(task.id, undefined, () => "unchecked")).toBe("unchecked");
+        });
+
+        it("should keep metadata written by others when recording a result", () => {
+            const task = manager.createTask("m1", "Build");
+            manager.claimTask(task.id, "agent-A");
+            store.updateTaskStatus(task.id, "in_progress", "agent-A", JSON.stringify({ estimate: 5 }));
+
+            const done = manager.updateTaskStatus(task.id, "completed", "Shipped", "agent-A");
+            expect(done.metadata).toEqual({ estimate: 5, result_summary: "Shipped" });
+        });
+    });
 });
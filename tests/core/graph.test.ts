@@ -0,0 +1,86 @@
+import { describe, it, expect } from "bun:test";
+import { renderGraph } from "../../src/core/graph";
+import { Task, Dependency } from "../../src/types";
+import { TaskNotFoundError } from "../../src/types/errors";
+
+const task = (id: string, overrides: Partial<Task> = {}): Task => ({
+    id,
+    mission_id: "m1",
+    title: id.toUpperCase(),
+    description: "",
+    status: "pending",
+    priority: 2,
+    assignee: null,
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "",
+    metadata: {},
+    ...overrides
+});
+
+const edge = (blocker: string, blocked: string): Dependency => ({ blocker_id: blocker, blocked_id: blocked, mission_id: "m1" });
+
+describe("Feature: Graph Rendering", () => {
+    // a -> b -> c -> d, x -> c
+    const tasks = [task("a", { status: "completed" }), task("b", { status: "in_progress" }), task("c"), task("d"), task("x")];
+    const deps = [edge("a", "b"), edge("b", "c"), edge("c", "d"), edge("x", "c")];
+
+    describe("Scenario: Mermaid", () => {
+        it("should render nodes, edges and status classes", () => {
+            const out = renderGraph(tasks, deps);
+
+            expect(out.split("\n")[0]).toBe("flowchart TD");
+            expect(out).toContain(`    a["A (completed)"]`);
+            expect(out).toContain("    a --> b");
+            expect(out).toContain("    x --> c");
+            expect(out).toContain("    classDef completed fill:#e8f5e9,stroke:#43a047");
+            expect(out).toContain("    class c,d,x pending");
+            expect(out).not.toContain("classDef failed");
+        });
+
+        it("should sanitise ids and escape labels", () => {
+            const out = renderGraph([task("ab-12", { title: `Say "hi"` })], []);
+            expect(out).toContain(`ab_12["Say #quot;hi#quot; (pending)"]`);
+        });
+
+        it("should draw subtasks with a dashed edge from their parent", () => {
+            const out = renderGraph([task("p"), task("k", { parent_id: "p" })], []);
+            expect(out).toContain("    p -.-> k");
+        });
+    });
+
+    describe("Scenario: DOT", () => {
+        it("should render a styled digraph", () => {
+            const out = renderGraph(tasks, deps, { format: "dot" });
+
+            expect(out.startsWith("digraph mission {")).toBe(true);
+            expect(out).toContain(`b [label="B\\n(in_progress)", fillcolor="#fff8e1", color="#f9a825"];`);
+            expect(out).toContain("    c -> d;");
+            expect(out.endsWith("}")).toBe(true);
+        });
+    });
+
+    describe("Scenario: Focusing on one task", () => {
+        it("should keep only tasks within the given hops up and down", () => {
+            const out = renderGraph(tasks, deps, { focus: "c", hops: 1 });
+
+            expect(out).toContain("b --> c");
+            expect(out).toContain("x --> c");
+            expect(out).toContain("c --> d");
+            expect(out).not.toContain("a[");
+            expect(out).toContain("style c stroke-width:3px");
+        });
+
+        it("should not pull in siblings that only share a blocker", () => {
+            const out = renderGraph(tasks, deps, { focus: "d", hops: 3 });
+            expect(out).toContain("a --> b");
+            expect(out).toContain("x --> c");
+
+            const sibling = renderGraph([task("r"), task("s1"), task("s2")], [edge("r", "s1"), edge("r", "s2")], { focus: "s1", hops: 5 });
+            expect(sibling).not.toContain("s2");
+        });
+
+        it("should reject an unknown focus task", () => {
+            expect(() => renderGraph(tasks, deps, { focus: "nope" })).toThrow(TaskNotFoundError);
+        });
+    });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { parseOpencodeTodos, parseMarkdownTaskList, parseTodoComments, scanTodoComments } from "../../src/core/importers";
+
+describe("Feature: Todo Importers", () => {
+    describe("Scenario: opencode todo lists", () => {
+        it("should map statuses and priorities and drop cancelled items", () => {
+            const todos = parseOpencodeTodos([
+                { id: "1", content: "Add login", status: "completed", priority: "high" },
+                { id: "2", content: "Write docs", status: "in_progress", priority: "low" },
+                { id: "3", content: "Old idea", status: "cancelled", priority: "medium" },
+                { content: "No id" }
+            ], "todo.json");
+
+            expect(todos.map(t => [t.title, t.priority, t.completed, t.key])).toEqual([
+                ["Add login", 1, true, "opencode:1"],
+                ["Write docs", 3, false, "opencode:2"],
+                ["No id", 2, false, "opencode:no id"]
+            ]);
+            expect(todos[0]).toMatchObject({ source: "opencode", file: "todo.json", line: null });
+        });
+
+        it("should accept a { todos } wrapper and reject malformed lists", () => {
+            expect(parseOpencodeTodos({ todos: [{ content: "A" }] })).toHaveLength(1);
+            expect(() => parseOpencodeTodos({ items: [] })).toThrow();
+            expect(() => parseOpencodeTodos([{ content: "" }])).toThrow();
+        });
+    });
+
+    describe("Scenario: Markdown task lists", () => {
+        it("should read checked and unchecked items in any list style", () => {
+            const todos = parseMarkdownTaskList([
+                "# Notes",
+                "- [ ] Set up CI",
+                "  * [x] Pick a runner",
+                "1. [X] Ship it",
+                "- plain bullet",
+                "- [] not a task"
+            ].join("\n"), "NOTES.md");
+
+            expect(todos.map(t => [t.title, t.completed, t.line])).toEqual([
+                ["Set up CI", false, 2],
+                ["Pick a runner", true, 3],
+                ["Ship it", true, 4]
+            ]);
+            expect(todos[0].key).toBe("markdown:NOTES.md:set up ci");
+        });
+    });
+
+    describe("Scenario: TODO and FIXME comments", () => {
+        it("should find tagged comments in common comment styles", () => {
+            const todos = parseTodoComments([
+                "const a = 1; // TODO: handle errors",
+                "# FIXME(alice): flaky on CI",
+                "/* TODO: tidy up */",
+                " * TODO: document params",
+                "<!-- TODO: add screenshot -->",
+                "const TODO = 'TODO: not a comment';",
+                "// TODO without a colon"
+            ].join("\n"), "src/a.ts");
+
+            expect(todos.map(t => [t.title, t.priority, t.line])).toEqual([
+                ["handle errors", 2, 1],
+                ["flaky on CI", 1, 2],
+                ["tidy up", 2, 3],
+                ["document params", 2, 4],
+                ["add screenshot", 2, 5]
+            ]);
+            expect(todos[1].key).toBe("comment:src/a.ts:FIXME:flaky on ci");
+        });
+
+        it("should number repeated comments in a file so each keeps its line", () => {
+            const todos = parseTodoComments("// TODO: retry\nfoo();\n// TODO: retry\n", "src/a.ts");
+
+            expect(todos.map(t => [t.line, t.key])).toEqual([
+                [1, "comment:src/a.ts:TODO:retry"],
+                [3, "comment:src/a.ts:TODO:retry#2"]
+            ]);
+        });
+
+        it("should ignore markers inside strings or glued to code", () => {
+            const todos = parseTodoComments([
+                "const s = \"-- TODO: not a comment\";",
+                "url = 'http://example.com/#TODO: anchor'",
+                "x = a#TODO: glued",
+                "y = b--TODO: glued",
+                "print(\"a \\\" // b\")  # TODO: after a string",
+                "SELECT 1; -- FIXME: add an index"
+            ].join("\n"), "src/b.py");
+
+            expect(todos.map(t => [t.title, t.line])).toEqual([
+                ["after a string", 5],
+                ["add an index", 6]
+            ]);
+        });
+
+        describe("when scanning a working tree", () => {
+            let root: string;
+
+            beforeEach(() => {
+                root = mkdtempSync(join(tmpdir(), "mc-todos-"));
+                mkdirSync(join(root, "src"));
+                mkdirSync(join(root, "node_modules"));
+                mkdirSync(join(root, ".git"));
+                writeFileSync(join(root, "src", "app.ts"), "\n// TODO: validate input\n");
+                writeFileSync(join(root, "node_modules", "dep.js"), "// TODO: not ours\n");
+                writeFileSync(join(root, ".git", "HEAD"), "# TODO: not ours\n");
+                writeFileSync(join(root, "logo.bin"), Buffer.from([0, 1, 2, 0x2f, 0x2f]));
+            });
+
+            afterEach(() => {
+                rmSync(root, { recursive: true, force: true });
+            });
+
+            it("should skip hidden, dependency and binary files and report relative paths", () => {
+                const todos = scanTodoComments(root);
+
+                expect(todos).toHaveLength(1);
+                expect(todos[0]).toMatchObject({ title: "validate input", file: join("src", "app.ts"), line: 2 });
+            });
+
+            it("should read a single file when given one", () => {
+                const file = join(root, "src", "app.ts");
+
+                expect(scanTodoComments(file).map(t => [t.title, t.file, t.line])).toEqual([["validate input", file, 2]]);
+                expect(scanTodoComments(join(root, "logo.bin"))).toEqual([]);
+            });
+        });
+    });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "bun:test";
+import { renderPlanMarkdown, parsePlanMarkdown, planFingerprint } from "../../src/core/markdown";
+import { Mission, Task, Dependency } from "../../src/types";
+
+const mission: Mission = { id: "m1", title: "Launch", status: "active", created_at: "" };
+
+const task = (id: string, overrides: Partial<Task> = {}): Task => ({
+    id,
+    mission_id: "m1",
+    title: id.toUpperCase(),
+    description: "",
+    status: "pending",
+    priority: 2,
+    assignee: null,
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "",
+    metadata: {},
+    ...overrides
+});
+
+const edge = (blocker: string, blocked: string): Dependency => ({ blocker_id: blocker, blocked_id: blocked, mission_id: "m1" });
+
+describe("Feature: Markdown Plans", () => {
+    const tasks = [
+        task("epic"),
+        task("a", { parent_id: "epic", status: "completed", priority: 1 }),
+        task("b", { parent_id: "epic", status: "in_progress", assignee: "agent-A" }),
+        task("ship", { priority: 0 })
+    ];
+    const deps = [edge("a", "b"), edge("epic", "ship")];
+
+    describe("Scenario: Rendering", () => {
+        it("should nest subtasks in the given order with tags and revisions", () => {
+            const lines = renderPlanMarkdown(mission, tasks, deps).split("\n");
+
+            expect(lines[0]).toBe("# Launch");
+            expect(lines).toContain(`- [ ] EPIC \`P2\` \`pending\` <!-- id:epic rev:${planFingerprint({ title: "EPIC", priority: 2, done: false, after: [] })} -->`);
+            expect(lines.filter(l => l.startsWith("  - "))).toEqual([
+                expect.stringContaining("  - [x] A `P1` `completed` <!-- id:a "),
+                expect.stringContaining("  - [ ] B `P2` `in_progress @agent-A` `after: a` <!-- id:b ")
+            ]);
+            expect(lines.findIndex(l => l.includes("id:ship"))).toBeGreaterThan(lines.findIndex(l => l.includes("id:b ")));
+        });
+
+        it("should put siblings a plan file reordered first, in that order", () => {
+            const reordered = [
+                ...tasks,
+                task("late"),
+                task("first", { metadata: { plan_order: 0 } })
+            ].map(t => t.id === "ship" ? { ...t, metadata: { plan_order: 1 } } : t);
+
+            const ids = parsePlanMarkdown(renderPlanMarkdown(mission, reordered, deps)).items.map(i => i.id);
+            expect(ids).toEqual(["first", "ship", "epic", "a", "b", "late"]);
+        });
+    });
+
+    describe("Scenario: Parsing", () => {
+        it("should read back what was rendered", () => {
+            const plan = parsePlanMarkdown(renderPlanMarkdown(mission, tasks, deps));
+
+            expect(plan.mission_id).toBe("m1");
+            expect(plan.items.map(i => i.id)).toEqual(["epic", "a", "b", "ship"]);
+            const b = plan.items[2];
+            expect(b).toMatchObject({ title: "B", checked: false, priority: 2, after: ["a"], parent_line: plan.items[0].line });
+            expect(b.rev).toBe(planFingerprint({ title: "B", priority: 2, done: false, after: ["a"] }));
+        });
+
+        it("should accept hand-written lines, tabs and unknown code spans", () => {
+            const plan = parsePlanMarkdown([
+                "Some notes",
+                "* [X] Rename `config` `P3`",
+                "\t- [ ] Child `after: x, y`",
+                "- [ ] ",
+                "- [ ] Top"
+            ].join("\n"));
+
+            expect(plan.mission_id).toBeNull();
+            expect(plan.items).toEqual([
+                { line: 2, parent_line: null, title: "Rename `config`", checked: true, priority: 3, after: [], id: undefined, rev: undefined },
+                { line: 3, parent_line: 2, title: "Child", checked: false, priority: undefined, after: ["x", "y"], id: undefined, rev: undefined },
+                { line: 5, parent_line: null, title: "Top", checked: false, priority: undefined, after: [], id: undefined, rev: undefined }
+            ]);
+        });
+    });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from "bun:test";
+import { buildWorkGraph, topologicalOrder, executionWaves, criticalPath, findCycle } from "../../src/core/planning";
+import { Task, Dependency } from "../../src/types";
+
+const task = (id: string, overrides: Partial<Task> = {}): Task => ({
+    id,
+    mission_id: "m1",
+    title: id.toUpperCase(),
+    description: "",
+    status: "pending",
+    priority: 2,
+    assignee: null,
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "",
+    metadata: {},
+    ...overrides
+});
+
+const edge = (blocker: string, blocked: string): Dependency => ({ blocker_id: blocker, blocked_id: blocked, mission_id: "m1" });
+
+describe("Feature: DAG Planning", () => {
+    // a -> c, b -> c, c -> d, a -> e
+    const tasks = ["a", "b", "c", "d", "e"].map(id => task(id));
+    const deps = [edge("a", "c"), edge("b", "c"), edge("c", "d"), edge("a", "e")];
+
+    describe("Scenario: Topological order", () => {
+        it("should place every blocker before the tasks it blocks", () => {
+            const { nodes, blockers } = buildWorkGraph(tasks, deps);
+            const order = topologicalOrder(nodes, blockers).map(t => t.id);
+
+            expect(order).toHaveLength(5);
+            for (const d of deps) {
+                expect(order.indexOf(d.blocker_id)).toBeLessThan(order.indexOf(d.blocked_id));
+            }
+        });
+
+        it("should prefer more urgent tasks when several are available", () => {
+            const urgent = [task("a", { priority: 3 }), task("b", { priority: 0 })];
+            const { nodes, blockers } = buildWorkGraph(urgent, []);
+            expect(topologicalOrder(nodes, blockers).map(t => t.id)).toEqual(["b", "a"]);
+        });
+    });
+
+    describe("Scenario: Execution waves", () => {
+        it("should group independent tasks into the same wave", () => {
+            const { nodes, blockers } = buildWorkGraph(tasks, deps);
+            const waves = executionWaves(nodes, blockers).map(w => w.map(t => t.id).sort());
+
+            expect(waves).toEqual([["a", "b"], ["c", "e"], ["d"]]);
+        });
+
+        it("should leave completed tasks out of the schedule", () => {
+            const partlyDone = tasks.map(t => t.id === "a" || t.id === "b" ? { ...t, status: "completed" as const } : t);
+            const { nodes, blockers } = buildWorkGraph(partlyDone, deps);
+
+            expect(executionWaves(nodes, blockers).map(w => w.map(t => t.id).sort())).toEqual([["c", "e"], ["d"]]);
+        });
+    });
+
+    describe("Scenario: Critical path", () => {
+        it("should find the longest chain by task count", () => {
+            const { nodes, blockers } = buildWorkGraph(tasks, deps);
+            const path = criticalPath(nodes, blockers);
+
+            expect(path.length).toBe(3);
+            expect(path.tasks.map(t => t.id)[1]).toBe("c");
+            expect(path.tasks.map(t => t.id)[2]).toBe("d");
+        });
+
+        it("should weigh tasks by their estimate when asked", () => {
+            const estimated = tasks.map(t => t.id === "e" ? { ...t, metadata: { estimate: 10 } } : t);
+            const { nodes, blockers } = buildWorkGraph(estimated, deps);
+
+            const path = criticalPath(nodes, blockers, { weighted: true });
+            expect(path.tasks.map(t => t.id)).toEqual(["a", "e"]);
+            expect(path.length).toBe(11);
+        });
+
+        it("should return an empty path for an empty graph", () => {
+            expect(criticalPath([], new Map())).toEqual({ tasks: [], length: 0 });
+        });
+    });
+
+    describe("Scenario: Hierarchy", () => {
+        it("should schedule subtasks instead of their parent and inherit the parent's edges", () => {
+            const withEpic = [
+                task("a"),
+                task("p"),
+                task("x", { parent_id: "p" }),
+                task("y", { parent_id: "p" }),
+                task("z")
+            ];
+            const { nodes, blockers } = buildWorkGraph(withEpic, [edge("a", "p"), edge("p", "z")]);
+            const waves = executionWaves(nodes, blockers).map(w => w.map(t => t.id).sort());
+
+            expect(waves).toEqual([["a"], ["x", "y"], ["z"]]);
+        });
+    });
+
+    describe("Scenario: Cycle detection over raw edges", () => {
+        it("should return null for a DAG", () => {
+            expect(findCycle(deps.map(d => [d.blocker_id, d.blocked_id] as [string, string]))).toBeNull();
+        });
+
+        it("should return the nodes along a cycle", () => {
+            expect(findCycle([["a", "b"], ["b", "c"], ["c", "a"], ["c", "d"]])).toEqual(["a", "b", "c", "a"]);
+        });
+    });
+});
@@ -1,7 +1,8 @@
-import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { describe, it, expect, beforeEach, afterEach, spyOn } from "bun:test";
 import { MissionStore } from "../../src/persistence/MissionStore";
 import { unlinkSync, existsSync } from "fs";
 import { join } from "path";
+import { DatabaseBusyError } from "../../src/types/errors";
 
 describe("Feature: Mission Persistence", () => {
     let store: MissionStore;
@@ -160,6 +161,282 @@ describe("Feature: Mission Persistence", () => {
         });
     });
 
+    describe("Scenario: Statement Caching and Batched Reads", () => {
+        it("should compile each statement once per store", () => {
+            const prepare = spyOn((store as any).db, "prepare");
+            store.getTask("a");
+            store.getTask("b");
+            store.getTask("c");
+            expect(prepare).toHaveBeenCalledTimes(1);
+        });
+
+        it("should load every blocker of a mission with its state", () => {
+            store.createMission({ id: "m-b", title: "M", status: "active", created_at: "" });
+            const base = { mission_id: "m-b", description: "", priority: 2, assignee: null, created_at: "2024-01-01", updated_at: "", metadata: {} };
+            store.createTask({ ...base, id: "a", title: "A", status: "completed" });
+            store.createTask({ ...base, id: "b", title: "B", status: "in_progress", assignee: "agent-A" });
+            store.createTask({ ...base, id: "c", title: "C", status: "pending" });
+            store.addDependency({ blocker_id: "a", blocked_id: "c", mission_id: "m-b" });
+            store.addDependency({ blocker_id: "b", blocked_id: "c", mission_id: "m-b" });
+
+            expect(store.getBlockerLinks("m-b")).toEqual([
+                { blocked_id: "c", id: "a", title: "A", status: "completed", assignee: null },
+                { blocked_id: "c", id: "b", title: "B", status: "in_progress", assignee: "agent-A" }
+            ]);
+        });
+    });
+
+    describe("Scenario: Unfinished Blocker Counters", () => {
+        const base = { mission_id: "m-c", description: "", priority: 2, assignee: null, created_at: "2024-01-01", updated_at: "", metadata: {} };
+        const count = (id: string) => store.getTask(id)?.unfinished_blockers;
+
+        beforeEach(() => {
+            store.createMission({ id: "m-c", title: "M", status: "active", created_at: "" });
+            store.createTask({ ...base, id: "a", title: "A", status: "pending" });
+            store.createTask({ ...base, id: "epic", title: "Epic", status: "pending" });
+            store.createTask({ ...base, id: "sub", title: "Sub", status: "pending", parent_id: "epic" });
+        });
+
+        it("should count blockers on the task and its ancestors", () => {
+            store.addDependency({ blocker_id: "a", blocked_id: "epic", mission_id: "m-c" });
+            expect([count("epic"), count("sub")]).toEqual([1, 1]);
+
+            store.createTask({ ...base, id: "late", title: "Late", status: "pending", parent_id: "epic" });
+            expect(count("late")).toBe(1);
+
+            store.addDependency({ blocker_id: "a", blocked_id: "sub", mission_id: "m-c" });
+            expect(count("sub")).toBe(2);
+
+            store.updateTaskStatus("a", "completed");
+            expect([count("epic"), count("sub"), count("late")]).toEqual([0, 0, 0]);
+
+            store.updateTaskStatus("a", "pending");
+            expect(count("sub")).toBe(2);
+            store.removeDependency("a", "sub");
+            expect(count("sub")).toBe(1);
+            expect(store.checkBlockerCounts()).toEqual([]);
+        });
+
+        it("should release dependents when an unfinished blocker is deleted", () => {
+            store.createTask({ ...base, id: "after", title: "After", status: "pending" });
+            store.addDependency({ blocker_id: "sub", blocked_id: "after", mission_id: "m-c" });
+            expect(count("after")).toBe(1);
+
+            store.deleteTask("epic");
+            expect(count("after")).toBe(0);
+            expect(store.getReadyTasks("m-c").map(t => t.id)).toEqual(["a", "after"]);
+        });
+
+        it("should detect and repair drifted counters", () => {
+            store.addDependency({ blocker_id: "a", blocked_id: "sub", mission_id: "m-c" });
+            (store as any).db.exec("UPDATE tasks SET unfinished_blockers = 7 WHERE id = 'sub'; UPDATE tasks SET unfinished_blockers = 3 WHERE id = 'a'");
+
+            expect(store.checkBlockerCounts()).toEqual(expect.arrayContaining([
+                { task_id: "sub", stored: 7, actual: 1 },
+                { task_id: "a", stored: 3, actual: 0 }
+            ]));
+            expect(store.checkBlockerCounts(true)).toHaveLength(2);
+            expect(store.checkBlockerCounts()).toEqual([]);
+            expect(count("sub")).toBe(1);
+        });
+    });
+
+    describe("Scenario: Labels and Filtered Queries", () => {
+        const query = (overrides: Record<string, unknown> = {}) => ({ sort: "priority" as const, order: "asc" as const, limit: 50, ...overrides });
+        const ids = (tasks: { id: string }[]) => tasks.map(t => t.id);
+
+        beforeEach(() => {
+            store.createMission({ id: "m-q", title: "M", status: "active", created_at: "" });
+            const base = { mission_id: "m-q", description: "", assignee: null, updated_at: "2024-02-01", metadata: {} };
+            store.createTask({ ...base, id: "a", title: "Fix login bug", status: "pending", priority: 1, created_at: "2024-01-01", labels: ["bug", "auth"] });
+            store.createTask({ ...base, id: "b", title: "Write docs", status: "completed", priority: 3, created_at: "2024-01-02", labels: ["docs"] });
+            store.createTask({ ...base, id: "c", title: "Refactor auth", status: "in_progress", priority: 2, created_at: "2024-01-03", assignee: "agent-A", labels: ["auth"], description: "100% coverage" });
+            store.createTask({ ...base, id: "d", title: "Bump deps", status: "pending", priority: 1, created_at: "2024-01-04" });
+        });
+
+        it("should store labels in a join table and return them sorted", () => {
+            expect(store.getTask("a")?.labels).toEqual(["auth", "bug"]);
+            store.setLabels("a", ["ui"]);
+            expect(store.getTask("a")?.labels).toEqual(["ui"]);
+            expect(store.getTask("d")?.labels).toEqual([]);
+        });
+
+        it("should filter by status, priority, assignee, labels, dates and text", () => {
+            expect(ids(store.queryTasks("m-q", query({ statuses: ["pending", "in_progress"] })))).toEqual(["a", "d", "c"]);
+            expect(ids(store.queryTasks("m-q", query({ min_priority: 2, max_priority: 3 })))).toEqual(["c", "b"]);
+            expect(ids(store.queryTasks("m-q", query({ assignee: "agent-A" })))).toEqual(["c"]);
+            expect(ids(store.queryTasks("m-q", query({ labels: ["auth"] })))).toEqual(["a", "c"]);
+            expect(ids(store.queryTasks("m-q", query({ labels: ["auth", "bug"] })))).toEqual(["a"]);
+            expect(ids(store.queryTasks("m-q", query({ created_after: "2024-01-02", created_before: "2024-01-04" })))).toEqual(["c", "b"]);
+            expect(ids(store.queryTasks("m-q", query({ text: "AUTH" })))).toEqual(["c"]);
+            expect(ids(store.queryTasks("m-q", query({ text: "100%" })))).toEqual(["c"]);
+            expect(ids(store.queryTasks("m-q", query({ text: "0%c" })))).toEqual([]);
+        });
+
+        it("should sort in either direction and resume after a cursor", () => {
+            expect(ids(store.queryTasks("m-q", query({ sort: "title" })))).toEqual(["d", "a", "c", "b"]);
+            expect(ids(store.queryTasks("m-q", query({ sort: "created_at", order: "desc", limit: 2 })))).toEqual(["d", "c"]);
+            expect(ids(store.queryTasks("m-q", query({ limit: 2 }), [1, "2024-01-01", "a"]))).toEqual(["d", "c"]);
+            expect(ids(store.queryTasks("m-q", query({ sort: "created_at", order: "desc" }), ["2024-01-03", "c"]))).toEqual(["b", "a"]);
+        });
+    });
+
+    describe("Scenario: Full-Text Search", () => {
+        const hitIds = (match: string, missionId: string | null = null) =>
+            store.searchTasks(match, missionId, 10).map(h => h.task.id);
+
+        beforeEach(() => {
+            store.createMission({ id: "m-s", title: "M", status: "active", created_at: "" });
+            store.createMission({ id: "m-other", title: "Other", status: "active", created_at: "" });
+            const base = { mission_id: "m-s", status: "pending" as const, priority: 2, assignee: null, created_at: "", updated_at: "", metadata: {} };
+            store.createTask({ ...base, id: "title", title: "Login redirect loop", description: "" });
+            store.createTask({ ...base, id: "body", title: "Session cleanup", description: "Fixes the redirect after logout" });
+            store.createTask({ ...base, id: "elsewhere", mission_id: "m-other", title: "Redirect docs", description: "" });
+        });
+
+        it("should rank title matches first and highlight them", () => {
+            const hits = store.searchTasks('"redirect"*', "m-s", 10);
+
+            expect(hits.map(h => h.task.id)).toEqual(["title", "body"]);
+            expect(hits[0].snippet).toBe("Login **redirect** loop");
+            expect(hits[0].score).toBeGreaterThan(hits[1].score);
+            expect(hitIds('"redirect"*')).toHaveLength(3);
+        });
+
+        it("should stay in sync with edits, result summaries and deletes", () => {
+            store.updateTaskFields("body", { acceptance_criteria: "No flicker on logout" });
+            store.updateTaskStatus("title", "completed", null, JSON.stringify({ result_summary: "Cached the oauth token" }));
+            expect(hitIds('"flicker"')).toEqual(["body"]);
+            expect(hitIds('"oauth"')).toEqual(["title"]);
+
+            store.deleteTask("title");
+            expect(hitIds('"oauth"')).toEqual([]);
+        });
+    });
+
+    describe("Scenario: Task Versions", () => {
+        const version = (id: string) => store.getTask(id)?.version;
+
+        beforeEach(() => {
+            store.createMission({ id: "m-v", title: "M", status: "active", created_at: "" });
+            const base = { mission_id: "m-v", status: "pending" as const, priority: 2, assignee: null, created_at: "", updated_at: "", metadata: {} };
+            store.createTask({ ...base, id: "a", title: "A", description: "" });
+            store.createTask({ ...base, id: "b", title: "B", description: "" });
+        });
+
+        it("should bump the version on every change to the task itself", () => {
+            expect(version("a")).toBe(1);
+            store.updateTaskFields("a", { title: "A2" });
+            store.updateTaskFields("a", { labels: ["ui", "api"] });
+            store.updateTaskStatus("a", "in_progress", "agent-A");
+            store.setLease("a", "2099-01-01T00:00:00.000Z");
+            expect(version("a")).toBe(5);
+        });
+
+        it("should bump the blocked task's version when an edge is added or removed", () => {
+            store.addDependency({ blocker_id: "a", blocked_id: "b", mission_id: "m-v" });
+            expect(version("b")).toBe(2);
+            expect(version("a")).toBe(1);
+            store.removeDependency("a", "b");
+            expect(version("b")).toBe(3);
+        });
+
+        it("should not count derived blocker counters as changes", () => {
+            store.addDependency({ blocker_id: "a", blocked_id: "b", mission_id: "m-v" });
+            const linked = version("b");
+            store.updateTaskStatus("a", "completed");
+            expect(version("b")).toBe(linked);
+        });
+
+        it("should merge metadata patches into the stored keys", () => {
+            store.createTask({ id: "c", mission_id: "m-v", title: "C", description: "", status: "pending", priority: 2, assignee: null, created_at: "", updated_at: "", metadata: { estimate: 3 } });
+            store.updateTaskStatus("c", "completed", null, JSON.stringify({ result_summary: "Done" }));
+            expect(store.getTask("c")?.metadata).toEqual({ estimate: 3, result_summary: "Done" });
+        });
+    });
+
+    describe("Scenario: Sharing the Database File", () => {
+        const busy = () => Object.assign(new Error("database is locked"), { code: "SQLITE_BUSY" });
+
+        it("should rerun a transaction that hit a busy lock", () => {
+            let calls = 0;
+            const result = store.runTransaction(() => {
+                calls++;
+                store.createMission({ id: `m-${calls}`, title: "M", status: "active", created_at: "" });
+                if (calls < 3) throw busy();
+                return "done";
+            }, "immediate");
+
+            expect(result).toBe("done");
+            expect(calls).toBe(3);
+            expect(store.getMissions().map(m => m.id)).toEqual(["m-3"]);
+        });
+
+        it("should give up with a clear error and leave nested transactions to the outer one", () => {
+            let calls = 0;
+            expect(() => store.runTransaction(() => { calls++; throw busy(); })).toThrow(DatabaseBusyError);
+            expect(calls).toBe(6);
+
+            calls = 0;
+            expect(() => store.runTransaction(() => store.runTransaction(() => { calls++; throw new Error("boom"); }))).toThrow("boom");
+            expect(calls).toBe(1);
+        });
+
+        it("should notice commits made by other connections only", () => {
+            const other = new MissionStore(tempDbPath);
+            try {
+                expect(store.hasExternalChanges()).toBe(false);
+                store.createMission({ id: "mine", title: "M", status: "active", created_at: "" });
+                expect(store.hasExternalChanges()).toBe(false);
+
+                other.createMission({ id: "theirs", title: "T", status: "active", created_at: "" });
+                expect(store.hasExternalChanges()).toBe(true);
+                expect(store.hasExternalChanges()).toBe(false);
+                expect(other.hasExternalChanges()).toBe(true);
+            } finally {
+                other.close();
+            }
+        });
+    });
+
+    describe("Scenario: Mission Summary", () => {
+        const task = (id: string, status: string, extra: Record<string, unknown> = {}) => ({
+            id, mission_id: "m-sum", title: id, description: "", status: status as any, priority: 2,
+            assignee: null, created_at: "2024-01-01", updated_at: "2024-01-01", metadata: {}, ...extra
+        });
+
+        it("should aggregate status counts, readiness and highlights", () => {
+            store.createMission({ id: "m-sum", title: "M", status: "active", created_at: "" });
+            store.createTask(task("done-old", "completed", { updated_at: "2024-01-02" }));
+            store.createTask(task("done-new", "completed", { updated_at: "2024-01-05" }));
+            store.createTask(task("free", "pending"));
+            store.createTask(task("waiting", "pending"));
+            store.addDependency({ blocker_id: "free", blocked_id: "waiting", mission_id: "m-sum" });
+            store.createTask(task("stuck", "blocked"));
+            store.createTask(task("busy", "in_progress", { assignee: "agent-A", updated_at: "2024-01-03" }));
+            store.createTask(task("busier", "in_progress", { assignee: "agent-A", updated_at: "2024-01-02" }));
+            store.createTask(task("broken", "failed", { metadata: { result_summary: "tests red" } }));
+
+            const summary = store.getMissionSummary("m-sum", 1);
+
+            expect(summary.total).toBe(8);
+            expect(summary.by_status.completed).toEqual({ count: 2, percent: 25 });
+            expect(summary.by_status.review).toEqual({ count: 0, percent: 0 });
+            expect(summary.ready).toBe(1);
+            expect(summary.blocked).toBe(2);
+            expect(summary.active_agents).toEqual([{ agent_id: "agent-A", task_ids: expect.arrayContaining(["busy", "busier"]), last_seen_at: null }]);
+            expect(summary.oldest_in_progress.map(t => t.id)).toEqual(["busier"]);
+            expect(summary.recent_completions.map(t => t.id)).toEqual(["done-new"]);
+            expect(summary.failed[0].metadata.result_summary).toBe("tests red");
+        });
+
+        it("should report an empty mission", () => {
+            store.createMission({ id: "m-sum", title: "M", status: "active", created_at: "" });
+            const summary = store.getMissionSummary("m-sum");
+            expect(summary).toMatchObject({ total: 0, ready: 0, blocked: 0, active_agents: [], failed: [] });
+        });
+    });
+
     describe("Scenario: Query Methods", () => {
         it("should retrieve all tasks for a mission", () => {
             
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeAll, afterAll, spyOn } from "bun:test";
+import { MissionStore } from "../../src/persistence/MissionStore";
+import { Task } from "../../src/types";
+import { unlinkSync, existsSync } from "fs";
+
+describe("Benchmark: Ready lookups on a large graph", () => {
+    const TASKS = 50_000;
+    const tempDbPath = `.test-db-bench-${Date.now()}-${Math.random()}.sqlite`;
+    let store: MissionStore;
+
+    const task = (i: number, overrides: Partial<Task> = {}): Task => ({
+        id: `t-${i}`, mission_id: "m-bench", title: `Task ${i}`, description: "", status: "pending",
+        priority: i % 5, assignee: null, created_at: new Date(Date.UTC(2024, 0, 1, 0, 0, i)).toISOString(),
+        updated_at: "", metadata: {}, ...overrides
+    });
+
+    beforeAll(() => {
+        store = new MissionStore(tempDbPath);
+        store.createMission({ id: "m-bench", title: "Bench", status: "active", created_at: "" });
+        // Chains of ten: every task except the head of a chain waits on its predecessor,
+        // and the first half of the mission is already done.
+        store.runTransaction(() => {
+            for (let i = 0; i < TASKS; i++) {
+                store.createTask(task(i, { status: i < TASKS / 2 ? "completed" : "pending" }));
+                if (i % 10 !== 0) {
+                    store.addDependency({ blocker_id: `t-${i - 1}`, blocked_id: `t-${i}`, mission_id: "m-bench" });
+                }
+            }
+        });
+    }, 30_000);
+
+    afterAll(() => {
+        store.close();
+        [tempDbPath, `${tempDbPath}-wal`, `${tempDbPath}-shm`].forEach(p => {
+            if (existsSync(p)) {
+                try { unlinkSync(p); } catch (e) { }
+            }
+        });
+    });
+
+    it(`should answer ready queries over ${TASKS} tasks from the readiness index`, () => {
+        const db = (store as any).db;
+        const prepare = spyOn(db, "prepare");
+        expect(store.getReadyTasks("m-bench", TASKS)).toHaveLength(TASKS / 2 / 10);
+        const sql = prepare.mock.calls.map(call => call[0] as string).find(query => query.includes("unfinished_blockers = 0"))!;
+        prepare.mockRestore();
+
+        const plan = (db.prepare(`EXPLAIN QUERY PLAN ${sql}`).all({
+            $missionId: "m-bench", $limit: 20, $minPriority: null, $maxPriority: null, $excludeIds: "[]", $capabilities: null
+        }) as { detail: string }[]).map(row => row.detail);
+        expect(plan).toContain("SEARCH t USING INDEX idx_tasks_ready (mission_id=? AND status=? AND unfinished_blockers=?)");
+        expect(plan.filter(detail => detail.startsWith("SCAN t"))).toEqual([]);
+    });
+
+    it("should keep counters consistent through a completion", () => {
+        expect(store.getTask(`t-${TASKS / 2 + 1}`)?.unfinished_blockers).toBe(1);
+        store.updateTaskStatus(`t-${TASKS / 2}`, "completed");
+
+        expect(store.getTask(`t-${TASKS / 2 + 1}`)?.unfinished_blockers).toBe(0);
+        expect(store.getReadyTasks("m-bench", TASKS).map(t => t.id)).toContain(`t-${TASKS / 2 + 1}`);
+    });
+
+    it("should pass the integrity check over the whole graph", () => {
+        const start = performance.now();
+        expect(store.checkBlockerCounts()).toEqual([]);
+        expect(performance.now() - start).toBeLessThan(10_000);
+    });
+
+    it("should delete a whole mission's tasks and their search entries in linear time", () => {
+        expect(store.searchTasks('"task"', "m-bench", 1)).toHaveLength(1);
+
+        const start = performance.now();
+        store.deleteTasksByMission("m-bench");
+        const elapsed = performance.now() - start;
+
+        expect(store.searchTasks('"task"', null, 1)).toEqual([]);
+        expect(elapsed).toBeLessThan(10_000);
+    });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { MissionStore } from "../../src/persistence/MissionStore";
+import { loadMigrations, runMigrations, getSchemaVersion } from "../../src/persistence/migrations";
+import { SchemaVersionError } from "../../src/types/errors";
+import { unlinkSync, existsSync } from "fs";
+
+describe("Feature: Versioned Schema Migrations", () => {
+    const migrations = loadMigrations();
+    const latest = migrations[migrations.length - 1].version;
+    let tempDbPath: string;
+
+    const buildFixture = (version: number) => {
+        const db = new Database(tempDbPath, { create: true });
+        runMigrations(db, migrations.slice(0, version));
+        db.exec(`INSERT INTO missions (id, title, status, created_at) VALUES ('m-1', 'Fixture', 'active', '2024-01-01')`);
+        db.exec(`INSERT INTO tasks (id, mission_id, title, description, status, priority, assignee, created_at, updated_at, metadata)
+            VALUES ('t-1', 'm-1', 'Fixture Task', 'Desc', 'pending', 2, NULL, '2024-01-01', '2024-01-01', '{"origin":"fixture"}')`);
+        db.close();
+    };
+
+    beforeEach(() => {
+        tempDbPath = `.test-db-migrations-${Date.now()}-${Math.random()}.sqlite`;
+    });
+
+    afterEach(() => {
+        [tempDbPath, `${tempDbPath}-wal`, `${tempDbPath}-shm`].forEach(p => {
+            if (existsSync(p)) {
+                try {
+                    unlinkSync(p);
+                } catch (e) { }
+            }
+        });
+    });
+
+    describe("Scenario: Fresh databases", () => {
+        it("should apply every migration on a new database", () => {
+            const store = new MissionStore(tempDbPath);
+            expect(store.getSchemaVersion()).toBe(latest);
+            store.close();
+        });
+
+        it("should be a no-op when reopening an up-to-date database", () => {
+            new MissionStore(tempDbPath).close();
+            const store = new MissionStore(tempDbPath);
+            expect(store.getSchemaVersion()).toBe(latest);
+            store.close();
+        });
+    });
+
+    describe("Scenario: Upgrading older databases", () => {
+        it("should upgrade a pre-versioning database created from the original schema", () => {
+            const db = new Database(tempDbPath, { create: true });
+            db.exec(migrations[0].sql);
+            db.exec(`INSERT INTO missions (id, title, status, created_at) VALUES ('m-1', 'Legacy', 'active', '2024-01-01')`);
+            db.exec(`INSERT INTO tasks (id, mission_id, title, description, status, priority, assignee, created_at, updated_at, metadata)
+                VALUES ('t-1', 'm-1', 'Legacy Task', '', 'pending', 2, NULL, '2024-01-01', '2024-01-01', '{}')`);
+            db.close();
+
+            const store = new MissionStore(tempDbPath);
+            expect(store.getSchemaVersion()).toBe(latest);
+            expect(store.getTask("t-1")?.title).toBe("Legacy Task");
+            store.close();
+        });
+
+        for (let version = 1; version < latest; version++) {
+            it(`should upgrade a version ${version} database to version ${latest} preserving data`, () => {
+                buildFixture(version);
+
+                const store = new MissionStore(tempDbPath);
+                expect(store.getSchemaVersion()).toBe(latest);
+
+                const task = store.getTask("t-1");
+                expect(task?.title).toBe("Fixture Task");
+                expect(task?.metadata).toEqual({ origin: "fixture" });
+                expect(store.getMission("m-1")?.title).toBe("Fixture");
+                store.close();
+            });
+        }
+    });
+
+    describe("Scenario: Backfilling derived columns", () => {
+        it("should compute unfinished blocker counts when upgrading", () => {
+            const blockerCounts = migrations.findIndex(m => m.name === "blocker_counts");
+            buildFixture(blockerCounts);
+            const db = new Database(tempDbPath);
+            db.exec(`INSERT INTO tasks (id, mission_id, title, description, status, priority, assignee, created_at, updated_at, metadata, parent_id)
+                VALUES ('t-2', 'm-1', 'Child', '', 'pending', 2, NULL, '2024-01-01', '2024-01-01', '{}', 't-3'),
+                       ('t-3', 'm-1', 'Parent', '', 'pending', 2, NULL, '2024-01-01', '2024-01-01', '{}', NULL)`);
+            db.exec(`INSERT INTO dependencies (blocker_id, blocked_id, mission_id) VALUES ('t-1', 't-3', 'm-1')`);
+            db.close();
+
+            const store = new MissionStore(tempDbPath);
+            expect(store.getTask("t-3")?.unfinished_blockers).toBe(1);
+            expect(store.getTask("t-2")?.unfinished_blockers).toBe(1);
+            expect(store.checkBlockerCounts()).toEqual([]);
+            store.close();
+        });
+    });
+
+    describe("Scenario: Backfilling the search index", () => {
+        it("should index existing tasks when upgrading", () => {
+            buildFixture(migrations.findIndex(m => m.name === "task_search"));
+
+            const store = new MissionStore(tempDbPath);
+            expect(store.searchTasks('"fixture"', null, 10).map(h => h.task.id)).toEqual(["t-1"]);
+            store.close();
+        });
+
+        it("should rebuild the index on task rowids and keep it in sync", () => {
+            buildFixture(migrations.findIndex(m => m.name === "task_search_rowid"));
+
+            const store = new MissionStore(tempDbPath);
+            expect(store.searchTasks('"fixture"', null, 10).map(h => h.task.id)).toEqual(["t-1"]);
+            store.updateTaskFields("t-1", { title: "Renamed" });
+            expect(store.searchTasks('"renamed"', null, 10).map(h => h.task.id)).toEqual(["t-1"]);
+            store.deleteTask("t-1");
+            expect(store.searchTasks('"renamed"', null, 10)).toEqual([]);
+            store.close();
+        });
+    });
+
+    describe("Scenario: Versioning existing tasks", () => {
+        it("should start existing tasks at version 1", () => {
+            buildFixture(migrations.findIndex(m => m.name === "task_versions"));
+
+            const store = new MissionStore(tempDbPath);
+            expect(store.getTask("t-1")?.version).toBe(1);
+            store.updateTaskFields("t-1", { title: "Renamed" });
+            expect(store.getTask("t-1")?.version).toBe(2);
+            store.close();
+        });
+    });
+
+    describe("Scenario: Refusing incompatible databases", () => {
+        it("should refuse to open a database newer than the code", () => {
+            const db = new Database(tempDbPath, { create: true });
+            runMigrations(db, migrations);
+            db.exec(`INSERT INTO schema_version (version, name, applied_at) VALUES (${latest + 1}, 'from_the_future', '2099-01-01')`);
+            db.close();
+
+            expect(() => new MissionStore(tempDbPath)).toThrow(SchemaVersionError);
+        });
+
+        it("should roll back every pending step when one migration fails", () => {
+            const db = new Database(tempDbPath, { create: true });
+            const broken = [
+                ...migrations,
+                { version: latest + 1, name: "good_step", sql: "CREATE TABLE extra (id TEXT)" },
+                { version: latest + 2, name: "bad_step", sql: "ALTER TABLE missing_table ADD COLUMN x TEXT" }
+            ];
+            runMigrations(db, migrations);
+
+            expect(() => runMigrations(db, broken)).toThrow();
+            expect(getSchemaVersion(db)).toBe(latest);
+            expect(db.prepare("SELECT name FROM sqlite_master WHERE name = 'extra'").get()).toBeNull();
+            db.close();
+        });
+    });
+});
@@ -1,10 +1,11 @@
-import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { describe, it, expect, beforeEach, afterEach, spyOn } from "bun:test";
 import { MissionStore } from "../../src/persistence/MissionStore";
 import { MissionManager } from "../../src/core/MissionManager";
 import { mission_control } from "../../src/tools/implementations/mission_control";
 import { getContextMissionId } from "../../src/utils/context";
-import { unlinkSync, existsSync } from "fs";
+import { unlinkSync, existsSync, readFileSync, writeFileSync, mkdirSync, rmSync } from "fs";
 import { join } from "path";
+import { TaskOwnershipError, VersionConflictError } from "../../src/types/errors";
 
 describe("Tool: mission_control", () => {
     const TEST_DB_PATH = join(import.meta.dir, `../../temp_test_mc_bdd_${Math.random().toString(36).slice(2)}.sqlite`);
@@ -57,12 +58,13 @@ describe("Tool: mission_control", () => {
 
         const result = await mission_control.handler(manager, {
             command: "update",
-            payload: { task_id: t1.id, status: "in_progress", result_summary: "Started" }
+            payload: { task_id: t1.id, status: "in_progress", result_summary: "Started", agent_id: "agent-1" }
         });
 
         expect(result.success).toBe(true);
         const task = result.data as any;
         expect(task.status).toBe("in_progress");
+        expect(task.assignee).toBe("agent-1");
         expect(task.metadata.result_summary).toBe("Started");
     });
 
@@ -127,6 +129,474 @@ describe("Tool: mission_control", () => {
         expect((result.data as any)[0].id).toBe(t1.id);
     });
 
+    it("should handle 'history' command", async () => {
+        const t1 = manager.createTask(missionId, "Audited Task");
+        await mission_control.handler(manager, {
+            command: "claim",
+            payload: { task_id: t1.id, agent_id: "agent-1" }
+        });
+
+        const result = await mission_control.handler(manager, {
+            command: "history",
+            payload: { task_id: t1.id }
+        });
+
+        expect(result.success).toBe(true);
+        expect(result.count).toBe(2);
+        expect((result.data as any[]).map(e => e.event_type)).toEqual(["created", "claimed"]);
+        expect(result.message).toContain("Task History");
+        expect(result.message).toContain("**claimed** by agent-1");
+    });
+
+    it("should handle 'heartbeat' command", async () => {
+        const t1 = manager.createTask(missionId, "Long Task");
+        manager.claimTask(t1.id, "agent-1");
+
+        const result = await mission_control.handler(manager, {
+            command: "heartbeat",
+            payload: { task_id: t1.id, agent_id: "agent-1" }
+        });
+
+        expect(result.success).toBe(true);
+        expect((result.data as any).lease_expires_at).toBeDefined();
+        expect(result.message).toContain("Lease on");
+    });
+
+    it("should reject finishing another agent's task through 'update'", async () => {
+        const t1 = manager.createTask(missionId, "Owned Task");
+        manager.claimTask(t1.id, "agent-1");
+
+        const promise = mission_control.handler(manager, {
+            command: "update",
+            payload: { task_id: t1.id, status: "completed", agent_id: "agent-2" }
+        });
+
+        expect(promise).rejects.toThrow(TaskOwnershipError);
+    });
+
+    it("should handle 'retry' command and show blocked reasons", async () => {
+        const root = manager.createTask(missionId, "Root");
+        const child = manager.createTask(missionId, "Child");
+        manager.linkTasks(root.id, child.id);
+        manager.claimTask(root.id, "agent-1");
+        manager.updateTaskStatus(root.id, "failed", "broken", "agent-1");
+
+        const report = await mission_control.handler(manager, {
+            command: "query",
+            payload: { view: "all" }
+        });
+        expect(report.message).toContain(`⛔ Blocked: upstream task ${root.id} failed`);
+
+        const result = await mission_control.handler(manager, {
+            command: "retry",
+            payload: { task_id: root.id }
+        });
+
+        expect(result.success).toBe(true);
+        expect((result.data as any).status).toBe("pending");
+        expect(store.getTask(child.id)!.status).toBe("pending");
+    });
+
+    it("should handle 'claim_next' command", async () => {
+        const t1 = manager.createTask(missionId, "Next Up", "", 1);
+
+        const result = await mission_control.handler(manager, {
+            command: "claim_next",
+            payload: { agent_id: "agent-1" }
+        });
+        expect(result.success).toBe(true);
+        expect((result.data as any).id).toBe(t1.id);
+
+        const empty = await mission_control.handler(manager, {
+            command: "claim_next",
+            payload: { agent_id: "agent-2" }
+        });
+        expect(empty.success).toBe(true);
+        expect(empty.data).toBeNull();
+        expect(empty.message).toContain("No ready tasks");
+    });
+
+    it("should create subtasks and render an indented task tree", async () => {
+        const epic = manager.createTask(missionId, "Build auth");
+        const child = await mission_control.handler(manager, {
+            command: "create",
+            payload: { title: "Login form", parent_id: epic.id }
+        });
+        expect((child.data as any).parent_id).toBe(epic.id);
+
+        const result = await mission_control.handler(manager, {
+            command: "query",
+            payload: { view: "all" }
+        });
+
+        expect(result.message).toContain("### Task Tree");
+        expect(result.message).toContain(`- [PENDING] Build auth (${epic.id})\n  - [PENDING] Login form (${(child.data as any).id})`);
+        expect(result.message).toContain(`↳ Subtask of ${epic.id}`);
+    });
+
+    it("should handle 'edit', 'unlink' and 'delete' commands", async () => {
+        const t1 = manager.createTask(missionId, "Blocker");
+        const t2 = manager.createTask(missionId, "Blocked");
+        manager.linkTasks(t1.id, t2.id);
+
+        const edited = await mission_control.handler(manager, {
+            command: "edit",
+            payload: { task_id: t2.id, title: "Renamed", priority: 1 }
+        });
+        expect((edited.data as any).title).toBe("Renamed");
+
+        const unlinked = await mission_control.handler(manager, {
+            command: "unlink",
+            payload: { task_id: t1.id, target_task_id: t2.id }
+        });
+        expect(unlinked.success).toBe(true);
+        expect(store.getDependencies(t2.id)).toEqual([]);
+
+        const deleted = await mission_control.handler(manager, {
+            command: "delete",
+            payload: { task_id: t1.id }
+        });
+        expect(deleted.data).toEqual([t1.id]);
+        expect(store.getTask(t1.id)).toBeNull();
+    });
+
+    it("should handle 'query: plan' view", async () => {
+        const t1 = manager.createTask(missionId, "Foundation");
+        const t2 = manager.createTask(missionId, "Walls");
+        const t3 = manager.createTask(missionId, "Wiring");
+        await manager.linkTasks(t1.id, t2.id);
+        await manager.linkTasks(t1.id, t3.id);
+
+        const result: any = await mission_control.handler(manager, {
+            command: "query",
+            payload: { view: "plan" }
+        });
+
+        expect(result.success).toBe(true);
+        expect(result.count).toBe(3);
+        expect(result.plan.waves).toEqual([[t1.id], expect.arrayContaining([t2.id, t3.id])]);
+        expect(result.plan.max_parallelism).toBe(2);
+        expect(result.plan.critical_path_length).toBe(2);
+        expect(result.message).toContain("### Execution Waves");
+        expect(result.message).toContain("### Critical Path");
+    });
+
+    it("should handle 'why' command", async () => {
+        const t1 = manager.createTask(missionId, "Root Cause");
+        const t2 = manager.createTask(missionId, "Middle");
+        const t3 = manager.createTask(missionId, "Goal");
+        await manager.linkTasks(t1.id, t2.id);
+        await manager.linkTasks(t2.id, t3.id);
+
+        const result = await mission_control.handler(manager, {
+            command: "why",
+            payload: { task_id: t3.id }
+        });
+
+        expect(result.success).toBe(true);
+        expect(result.message).toContain("not ready");
+        expect(result.message).toContain(`- [PENDING] Middle (${t2.id})\n  - [PENDING] Root Cause (${t1.id})`);
+        expect(result.message).toContain(`### Actionable Now\n- Root Cause (${t1.id})`);
+    });
+
+    it("should register agents and route ready tasks by capability", async () => {
+        await mission_control.handler(manager, { command: "register_agent", payload: { agent_id: "agent-FE", capabilities: ["frontend"] } });
+        const ui = (await mission_control.handler(manager, {
+            command: "create",
+            payload: { title: "Build UI", priority: 1, required_capabilities: ["frontend"] }
+        })).data as any;
+        const db = (await mission_control.handler(manager, {
+            command: "create",
+            payload: { title: "Write schema", priority: 1, required_capabilities: ["db"] }
+        })).data as any;
+
+        const ready = await mission_control.handler(manager, { command: "query", payload: { view: "ready", agent_id: "agent-FE" } });
+        expect((ready.data as any[]).map(t => t.id)).toEqual([ui.id]);
+        expect(ready.message).toContain("🧰 Requires: frontend");
+
+        const claimed = await mission_control.handler(manager, { command: "claim_next", payload: { agent_id: "agent-FE" } });
+        expect((claimed.data as any).id).toBe(ui.id);
+
+        const agents = await mission_control.handler(manager, { command: "agents", payload: {} });
+        expect(agents.count).toBe(1);
+        expect(agents.message).toContain(`**agent-FE** 🟢 active | capabilities: frontend | working on: ${ui.id}`);
+        expect(store.getTask(db.id)?.status).toBe("pending");
+    });
+
+    it("should list missions and switch the session to another one", async () => {
+        const session = { sessionID: "session-1" };
+        try {
+            const switched = await mission_control.handler(manager, {
+                command: "switch_mission",
+                payload: { mission_id: "side-quest", title: "Side Quest" }
+            }, session);
+            expect(switched.message).toBe("Now working on mission 'Side Quest' (side-quest)");
+
+            await mission_control.handler(manager, { command: "create", payload: { title: "Side Task" } }, session);
+            await mission_control.handler(manager, { command: "create", payload: { title: "Main Task" } });
+            expect(manager.getAllTasks("side-quest").map(t => t.title)).toEqual(["Side Task"]);
+            expect(manager.getAllTasks(missionId).map(t => t.title)).toEqual(["Main Task"]);
+
+            const list = await mission_control.handler(manager, { command: "missions", payload: {} }, session);
+            expect(list.count).toBe(2);
+            expect(list.message).toContain("- 👉 **Side Quest** (side-quest) | ACTIVE | 0/1 tasks completed");
+
+            await mission_control.handler(manager, { command: "switch_mission", payload: {} }, session);
+            const back = await mission_control.handler(manager, { command: "query", payload: { view: "all" } }, session);
+            expect((back.data as any[]).map(t => t.title)).toEqual(["Main Task"]);
+        } finally {
+            await mission_control.handler(manager, { command: "switch_mission", payload: {} }, session);
+        }
+    });
+
+    it("should archive a mission through switch_mission", async () => {
+        manager.createMission("old", "Old Work");
+        const result = await mission_control.handler(manager, { command: "switch_mission", payload: { mission_id: "old", archive: true } });
+        expect((result.data as any).status).toBe("archived");
+
+        const list = await mission_control.handler(manager, { command: "missions", payload: {} });
+        expect((list.data as any[]).map(m => m.id)).toEqual([missionId]);
+        await expect(mission_control.handler(manager, { command: "switch_mission", payload: { mission_id: "nowhere" } })).rejects.toThrow("does not exist");
+    });
+
+    it("should render the 'summary' dashboard", async () => {
+        const done = manager.createTask(missionId, "Done");
+        const working = manager.createTask(missionId, "Working");
+        const broken = manager.createTask(missionId, "Broken");
+        const waiting = manager.createTask(missionId, "Waiting");
+        manager.linkTasks(working.id, waiting.id);
+        manager.claimTask(done.id, "agent-A");
+        manager.updateTaskStatus(done.id, "completed", null, "agent-A");
+        manager.claimTask(working.id, "agent-B");
+        manager.claimTask(broken.id, "agent-A");
+        manager.updateTaskStatus(broken.id, "failed", "Disk full", "agent-A");
+
+        const result = await mission_control.handler(manager, { command: "query", payload: { view: "summary" } });
+
+        expect(result.count).toBe(4);
+        expect(result.message).toContain("Progress: 1/4 completed (25%)");
+        expect(result.message).toContain("Ready now: 0 | Blocked or waiting: 1");
+        expect(result.message).toContain("- IN_PROGRESS: 1 (25%)");
+        expect(result.message).toContain(`- agent-B: ${working.id}`);
+        expect(result.message).toContain(`- Working (${working.id}) — @agent-B for 0m`);
+        expect(result.message).toContain(`- Broken (${broken.id}) — Disk full`);
+    });
+
+    it("should render the 'graph' view as Mermaid or DOT", async () => {
+        const t1 = manager.createTask(missionId, "Design");
+        const t2 = manager.createTask(missionId, "Build");
+        const t3 = manager.createTask(missionId, "Ship");
+        manager.linkTasks(t1.id, t2.id);
+        manager.linkTasks(t2.id, t3.id);
+        const node = (id: string) => id.replace(/\W/g, "_");
+
+        const mermaid = await mission_control.handler(manager, { command: "query", payload: { view: "graph" } });
+        expect(mermaid.message).toStartWith("## Mission Control Report: GRAPH\n```mermaid\nflowchart TD");
+        expect(mermaid.data).toContain(`${node(t1.id)} --> ${node(t2.id)}`);
+
+        const dot = await mission_control.handler(manager, {
+            command: "query",
+            payload: { view: "graph", format: "dot", task_id: t3.id, hops: 1 }
+        });
+        expect(dot.message).toContain(`GRAPH around ${t3.id}`);
+        expect(dot.data).toContain(`${node(t2.id)} -> ${node(t3.id)};`);
+        expect(dot.data).not.toContain(node(t1.id));
+    });
+
+    it("should handle 'submit_plan' command", async () => {
+        const result = await mission_control.handler(manager, {
+            command: "submit_plan",
+            payload: {
+                tasks: [{ key: "api", title: "API", labels: ["backend"], metadata: { estimate: 3 } }, { key: "ui", title: "UI" }],
+                edges: [{ blocker: "api", blocked: "ui" }, { blocker: "api", blocked: "ui" }]
+            }
+        });
+
+        const { ids } = result.data as any;
+        expect(result.count).toBe(2);
+        expect(result.message).toStartWith("Created 2 task(s) and 1 link(s):");
+        expect(result.message).toContain(`- api → ${ids.api}`);
+        expect(manager.getDependencies(ids.ui)).toEqual([ids.api]);
+        expect(manager.getReadyTasks(missionId, 10).map(t => t.id)).toEqual([ids.api]);
+        expect(store.getTask(ids.api)).toMatchObject({ labels: ["backend"], metadata: { estimate: 3 } });
+    });
+
+    it("should handle 'get' command", async () => {
+        const t1 = manager.createTask(missionId, "Blocker", "", 1, "Tests pass", { estimate: 3 });
+        const t2 = manager.createTask(missionId, "Dependent");
+        manager.linkTasks(t1.id, t2.id);
+        manager.claimTask(t1.id, "agent-A");
+
+        const result = await mission_control.handler(manager, { command: "get", payload: { task_id: t1.id } });
+
+        expect((result.data as any).task.id).toBe(t1.id);
+        expect(result.message).toStartWith(`## Blocker (${t1.id})\n🚦 IN_PROGRESS for 0m`);
+        expect(result.message).toContain("👤 Assignee: agent-A (lease until");
+        expect(result.message).toContain("✅ Criteria: Tests pass");
+        expect(result.message).toContain(`### Blocks\n- [PENDING] Dependent (${t2.id})`);
+        expect(result.message).toContain(`"estimate": 3`);
+        expect(result.message).not.toContain("### Blocked By");
+    });
+
+    it("should list blockers on every card without per-task lookups", async () => {
+        const root = manager.createTask(missionId, "Root");
+        const leaves = Array.from({ length: 20 }, (_, i) => manager.createTask(missionId, `Leaf ${i}`));
+        leaves.forEach(leaf => manager.linkTasks(root.id, leaf.id));
+
+        const perTask = [spyOn(store, "getDependencies"), spyOn(store, "getTask"), spyOn(store, "getDependents")];
+        const result = await mission_control.handler(manager, { command: "query", payload: { view: "all" } });
+
+        perTask.forEach(spy => expect(spy).not.toHaveBeenCalled());
+        expect(result.count).toBe(21);
+        expect(result.message!.split(`🔗 Depends on: Root (${root.id}) [PENDING]`)).toHaveLength(21);
+    });
+
+    it("should filter, sort and page the 'all' view", async () => {
+        for (const [title, labels] of [["Fix bug", ["bug"]], ["Another bug", ["bug"]], ["Docs", []]] as const) {
+            await mission_control.handler(manager, { command: "create", payload: { title, labels: [...labels] } });
+        }
+
+        const first = await mission_control.handler(manager, {
+            command: "query",
+            payload: { view: "all", labels: ["bug"], sort: "title", limit: 1 }
+        });
+        expect((first.data as any[]).map(t => t.title)).toEqual(["Another bug"]);
+        expect(first.message).toContain("🏷️ Labels: bug");
+        expect(first.message).toContain(`cursor "${first.next_cursor}"`);
+
+        const second = await mission_control.handler(manager, {
+            command: "query",
+            payload: { view: "all", labels: ["bug"], sort: "title", limit: 1, cursor: first.next_cursor! }
+        });
+        expect((second.data as any[]).map(t => t.title)).toEqual(["Fix bug"]);
+        expect(second.next_cursor).toBeNull();
+    });
+
+    it("should search the current mission or every mission", async () => {
+        manager.createTask(missionId, "Fix login redirect");
+        manager.createMission("elsewhere", "Elsewhere");
+        manager.createTask("elsewhere", "Redirect old links");
+
+        const local = await mission_control.handler(manager, { command: "search", payload: { text: "redirect" } });
+        expect(local.count).toBe(1);
+        expect(local.message).toContain("> Fix login **redirect**");
+
+        const global = await mission_control.handler(manager, { command: "search", payload: { text: "redirect", all_missions: true } });
+        expect(global.count).toBe(2);
+        expect(global.message).toContain("mission elsewhere");
+    });
+
+    it("should export a mission to a file and import it back", async () => {
+        const blocker = manager.createTask(missionId, "Blocker");
+        const blocked = manager.createTask(missionId, "Blocked");
+        manager.linkTasks(blocker.id, blocked.id);
+        const path = `${TEST_DB_PATH}.export.json`;
+
+        try {
+            const exported = await mission_control.handler(manager, { command: "export", payload: { path } });
+            expect(exported.message).toContain(`Exported 2 tasks and 1 dependencies`);
+
+            const imported = await mission_control.handler(manager, { command: "import", payload: { path, mode: "new", mission_id: "copy" } });
+            expect(imported.count).toBe(2);
+            expect(imported.message).toContain(`- ${blocker.id} → `);
+            expect(manager.getAllTasks("copy")).toHaveLength(2);
+        } finally {
+            if (existsSync(path)) unlinkSync(path);
+        }
+    });
+
+    it("should write a plan file and sync a human's edits back", async () => {
+        const task = manager.createTask(missionId, "Draft spec");
+        const path = `${TEST_DB_PATH}.PLAN.md`;
+
+        try {
+            await mission_control.handler(manager, { command: "write_plan", payload: { path } });
+            writeFileSync(path, readFileSync(path, "utf-8").replace("- [ ] Draft spec", "- [ ] Draft the spec") + "- [ ] Review spec\n");
+
+            const preview = await mission_control.handler(manager, { command: "sync_plan", payload: { path, dry_run: true } });
+            expect(preview.message).toContain(`~ edit ${task.id}: title → "Draft the spec"`);
+            expect(preview.message).toContain(`+ create "Review spec"`);
+            expect(manager.getAllTasks(missionId)).toHaveLength(1);
+
+            const synced = await mission_control.handler(manager, { command: "sync_plan", payload: { path } });
+            expect(synced.count).toBe(2);
+            expect(readFileSync(path, "utf-8")).toContain("- [ ] Review spec `P4` `pending` <!-- id:");
+        } finally {
+            if (existsSync(path)) unlinkSync(path);
+        }
+    });
+
+    it("should import todo comments from a directory only once", async () => {
+        const dir = `${TEST_DB_PATH}.todos`;
+        mkdirSync(dir);
+        writeFileSync(join(dir, "app.ts"), "// FIXME: crash on empty input\n");
+
+        try {
+            const first = await mission_control.handler(manager, { command: "import_todos", payload: { source: "comments", path: dir } });
+            expect(first.count).toBe(1);
+            expect(first.message).toContain("crash on empty input");
+            expect(first.message).toContain("app.ts:1");
+
+            const second = await mission_control.handler(manager, { command: "import_todos", payload: { source: "comments", path: dir } });
+            expect(second.count).toBe(0);
+            expect(second.message).toContain("Imported 0 of 1 todos (1 skipped)");
+
+            const single = await mission_control.handler(manager, { command: "import_todos", payload: { source: "comments", path: join(dir, "app.ts") } });
+            expect(single.message).toContain("Imported 0 of 1 todos (1 skipped)");
+        } finally {
+            rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    it("should refuse writes made against a stale version", async () => {
+        const task = manager.createTask(missionId, "Versioned");
+        const edit = (expected_version: number) =>
+            mission_control.handler(manager, { command: "edit", payload: { task_id: task.id, title: `v${expected_version}`, expected_version } });
+
+        const edited = await edit(1);
+        expect((edited.data as any).version).toBe(2);
+        expect(edit(1)).rejects.toThrow(VersionConflictError);
+
+        const got = await mission_control.handler(manager, { command: "get", payload: { task_id: task.id } });
+        expect(got.message).toContain("Version 2");
+    });
+
+    it("should refuse a link or unlink made against a stale version of the blocked task", async () => {
+        const [blocker, blocked] = ["Blocker", "Blocked"].map(title => manager.createTask(missionId, title));
+        const link = (command: "link" | "unlink", expected_version: number) =>
+            mission_control.handler(manager, { command, payload: { task_id: blocker.id, target_task_id: blocked.id, expected_version } });
+
+        await link("link", 1);
+        expect(store.getTask(blocked.id)?.version).toBe(2);
+        await expect(link("unlink", 1)).rejects.toThrow(VersionConflictError);
+        await expect(link("link", 1)).rejects.toThrow(VersionConflictError);
+
+        await link("unlink", 2);
+        expect(store.getDependencies(blocked.id)).toEqual([]);
+        expect(store.getTask(blocked.id)?.version).toBe(3);
+    });
+
+    it("should take the write lock up front for claims, with or without a version", async () => {
+        const [first, second, third, fourth] = ["First", "Second", "Third", "Fourth"].map(title => manager.createTask(missionId, title));
+        const runTransaction = store.runTransaction.bind(store);
+        const outerModes: (string | undefined)[] = [];
+        let depth = 0;
+        const transactions = spyOn(store, "runTransaction").mockImplementation(((callback: () => unknown, mode?: "deferred" | "immediate") => {
+            if (depth === 0) outerModes.push(mode);
+            depth++;
+            try { return runTransaction(callback, mode); } finally { depth--; }
+        }) as typeof store.runTransaction);
+
+        await mission_control.handler(manager, { command: "claim", payload: { task_id: first.id, agent_id: "agent-A" } });
+        await mission_control.handler(manager, { command: "claim", payload: { task_id: second.id, agent_id: "agent-A", expected_version: 1 } });
+        await mission_control.handler(manager, { command: "update", payload: { task_id: third.id, status: "in_progress", agent_id: "agent-A" } });
+        await mission_control.handler(manager, { command: "update", payload: { task_id: fourth.id, status: "in_progress", agent_id: "agent-A", expected_version: 1 } });
+        transactions.mockRestore();
+
+        expect(outerModes).toEqual(["immediate", "immediate", "immediate", "immediate"]);
+        expect([second, third, fourth].map(t => store.getTask(t.id)?.assignee)).toEqual(["agent-A", "agent-A", "agent-A"]);
+    });
+
     it("should throw error for missing arguments", async () => {
         
         const promise = mission_control.handler(manager, {
@@ -224,7 +694,7 @@ describe("Tool: mission_control", () => {
         });
         await mission_control.handler(manager, {
             command: "update",
-            payload: { task_id: subTask1Id, status: "completed", result_summary: "API designed" }
+            payload: { task_id: subTask1Id, status: "completed", result_summary: "API designed", agent_id: "agent-1" }
         });
 
         
@@ -244,7 +714,7 @@ describe("Tool: mission_control", () => {
         });
         await mission_control.handler(manager, {
             command: "update",
-            payload: { task_id: subTask2Id, status: "in_progress", result_summary: "Started implementation" }
+            payload: { task_id: subTask2Id, status: "in_progress", result_summary: "Started implementation", agent_id: "agent-1" }
         });
 
         
@@ -258,7 +728,7 @@ describe("Tool: mission_control", () => {
         
         await mission_control.handler(manager, {
             command: "update",
-            payload: { task_id: subTask2Id, status: "completed", result_summary: "Login implemented" }
+            payload: { task_id: subTask2Id, status: "completed", result_summary: "Login implemented", agent_id: "agent-1" }
         });
 
         
@@ -272,9 +742,13 @@ describe("Tool: mission_control", () => {
         expect(readyIds3).toContain(subTask3Id);
 
         
+        await mission_control.handler(manager, {
+            command: "claim",
+            payload: { task_id: featureId, agent_id: "agent-2" }
+        });
         await mission_control.handler(manager, {
             command: "update",
-            payload: { task_id: featureId, status: "completed", result_summary: "Authentication feature complete" }
+            payload: { task_id: featureId, status: "completed", result_summary: "Authentication feature complete", agent_id: "agent-2" }
         });
 
         
@@ -303,7 +777,7 @@ describe("Tool: mission_control", () => {
         });
         await mission_control.handler(manager, {
             command: "update",
-            payload: { task_id: failingId, status: "failed", result_summary: "Failed due to bug" }
+            payload: { task_id: failingId, status: "failed", result_summary: "Failed due to bug", agent_id: "agent-1" }
         });
 
         
@@ -331,7 +805,7 @@ describe("Tool: mission_control", () => {
         });
         await mission_control.handler(manager, {
             command: "update",
-            payload: { task_id: recoveryId, status: "completed", result_summary: "Bug fixed" }
+            payload: { task_id: recoveryId, status: "completed", result_summary: "Bug fixed", agent_id: "agent-1" }
         });
 
         
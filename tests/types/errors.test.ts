@@ -5,7 +5,13 @@ import {
     TaskLockedError,
     TaskNotFoundError,
     MissionNotFoundError,
-    InvalidOperationError
+    InvalidOperationError,
+    SchemaVersionError,
+    InvalidTransitionError,
+    TaskOwnershipError,
+    MissingCapabilityError,
+    VersionConflictError,
+    DatabaseBusyError
 } from "../../src/types/errors";
 
 describe("MissionControlError", () => {
@@ -96,4 +102,84 @@ describe("InvalidOperationError", () => {
         expect(error.name).toBe("InvalidOperationError");
         expect(error.message).toBe("Custom invalid message");
     });
-});
\ No newline at end of file
+});
+
+describe("SchemaVersionError", () => {
+    it("should extend MissionControlError", () => {
+        const error = new SchemaVersionError(3, 2);
+        expect(error).toBeInstanceOf(MissionControlError);
+        expect(error).toBeInstanceOf(Error);
+    });
+
+    it("should have correct name and mention both versions", () => {
+        const error = new SchemaVersionError(3, 2);
+        expect(error.name).toBe("SchemaVersionError");
+        expect(error.message).toContain("version 3");
+        expect(error.message).toContain("supported version 2");
+    });
+});
+
+describe("InvalidTransitionError", () => {
+    it("should extend MissionControlError", () => {
+        const error = new InvalidTransitionError("task-1", "completed", "in_progress");
+        expect(error).toBeInstanceOf(MissionControlError);
+    });
+
+    it("should have correct name and formatted message", () => {
+        const error = new InvalidTransitionError("task-1", "completed", "in_progress");
+        expect(error.name).toBe("InvalidTransitionError");
+        expect(error.message).toBe("Task task-1 cannot move from 'completed' to 'in_progress'");
+    });
+});
+
+describe("TaskOwnershipError", () => {
+    it("should extend MissionControlError", () => {
+        const error = new TaskOwnershipError("task-1", "agent-A", "agent-B");
+        expect(error).toBeInstanceOf(MissionControlError);
+    });
+
+    it("should name the owner and the caller", () => {
+        const error = new TaskOwnershipError("task-1", "agent-A", "agent-B");
+        expect(error.name).toBe("TaskOwnershipError");
+        expect(error.message).toBe("Task task-1 is owned by agent agent-A; agent agent-B cannot change its status");
+    });
+});
+
+describe("MissingCapabilityError", () => {
+    it("should extend MissionControlError", () => {
+        const error = new MissingCapabilityError("task-1", "agent-A", ["frontend"]);
+        expect(error).toBeInstanceOf(MissionControlError);
+    });
+
+    it("should list the missing capabilities", () => {
+        const error = new MissingCapabilityError("task-1", "agent-A", ["frontend", "db"]);
+        expect(error.name).toBe("MissingCapabilityError");
+        expect(error.message).toBe("Agent agent-A lacks capabilities required by task task-1: frontend, db");
+    });
+});
+
+describe("VersionConflictError", () => {
+    it("should extend MissionControlError", () => {
+        const error = new VersionConflictError("task-1", 2, 3);
+        expect(error).toBeInstanceOf(MissionControlError);
+    });
+
+    it("should give the expected and current versions", () => {
+        const error = new VersionConflictError("task-1", 2, 3);
+        expect(error.name).toBe("VersionConflictError");
+        expect(error.message).toBe("Task task-1 changed since it was read (expected version 2, now 3); fetch it again and retry");
+    });
+});
+
+describe("DatabaseBusyError", () => {
+    it("should extend MissionControlError", () => {
+        const error = new DatabaseBusyError(6);
+        expect(error).toBeInstanceOf(MissionControlError);
+    });
+
+    it("should say how often it tried", () => {
+        const error = new DatabaseBusyError(6);
+        expect(error.name).toBe("DatabaseBusyError");
+        expect(error.message).toBe("The mission database stayed locked by another process after 6 attempts; try again shortly");
+    });
+});
@@ -7,7 +7,16 @@ import {
     MissionSchema,
     TaskSchema,
     DependencySchema,
-    CreateTaskInputSchema
+    TaskEventSchema,
+    CreateTaskInputSchema,
+    TaskStatusTransitions,
+    EditTaskInputSchema,
+    DeleteTaskInputSchema,
+    RegisterAgentInputSchema,
+    SubmitPlanInputSchema,
+    TaskQuerySchema,
+    MissionExportSchema,
+    isValidTransition
 } from "../../src/types/schemas";
 
 describe("MissionStatusSchema", () => {
@@ -19,6 +28,10 @@ describe("MissionStatusSchema", () => {
         expect(MissionStatusSchema.parse("archived")).toBe("archived");
     });
 
+    it("should parse valid completed status", () => {
+        expect(MissionStatusSchema.parse("completed")).toBe("completed");
+    });
+
     it("should reject invalid status", () => {
         expect(() => MissionStatusSchema.parse("invalid")).toThrow();
     });
@@ -42,6 +55,34 @@ describe("TaskStatusSchema", () => {
     });
 });
 
+describe("TaskStatusTransitions", () => {
+    it("should define transitions for every status", () => {
+        expect(Object.keys(TaskStatusTransitions).sort()).toEqual([...TaskStatusSchema.options].sort());
+    });
+
+    it("should only reference known statuses", () => {
+        Object.values(TaskStatusTransitions).flat().forEach(status => {
+            expect(TaskStatusSchema.parse(status)).toBe(status);
+        });
+    });
+
+    it("should allow the claim -> work -> finish flow", () => {
+        expect(isValidTransition("pending", "in_progress")).toBe(true);
+        expect(isValidTransition("in_progress", "review")).toBe(true);
+        expect(isValidTransition("review", "completed")).toBe(true);
+    });
+
+    it("should reject leaving a completed task or skipping work", () => {
+        expect(isValidTransition("completed", "in_progress")).toBe(false);
+        expect(isValidTransition("failed", "completed")).toBe(false);
+        expect(isValidTransition("pending", "completed")).toBe(false);
+    });
+
+    it("should treat staying in the same status as valid", () => {
+        expect(isValidTransition("in_progress", "in_progress")).toBe(true);
+    });
+});
+
 describe("TaskPrioritySchema", () => {
     it("should parse valid priorities", () => {
         [0, 1, 2, 3, 4].forEach(priority => {
@@ -185,6 +226,27 @@ describe("DependencySchema", () => {
     });
 });
 
+describe("TaskEventSchema", () => {
+    const validEvent = {
+        id: 1,
+        task_id: "task-1",
+        mission_id: "mission-123",
+        event_type: "claimed" as const,
+        actor: "agent-1",
+        old_value: { status: "pending", assignee: null },
+        new_value: { status: "in_progress", assignee: "agent-1" },
+        created_at: "2024-01-01T00:00:00Z"
+    };
+
+    it("should parse valid event", () => {
+        expect(TaskEventSchema.parse(validEvent)).toEqual(validEvent);
+    });
+
+    it("should reject unknown event type", () => {
+        expect(() => TaskEventSchema.parse({ ...validEvent, event_type: "renamed" })).toThrow();
+    });
+});
+
 describe("CreateTaskInputSchema", () => {
     it("should parse minimal input with defaults", () => {
         const input = {
@@ -234,4 +296,85 @@ describe("CreateTaskInputSchema", () => {
         };
         expect(() => CreateTaskInputSchema.parse(invalid)).toThrow();
     });
-});
\ No newline at end of file
+});
+
+describe("RegisterAgentInputSchema", () => {
+    it("should normalise capability tags", () => {
+        expect(RegisterAgentInputSchema.parse({ id: "agent-1", capabilities: [" Frontend ", "db"] }))
+            .toEqual({ id: "agent-1", capabilities: ["frontend", "db"] });
+    });
+
+    it("should default to no capabilities", () => {
+        expect(RegisterAgentInputSchema.parse({ id: "agent-1" }).capabilities).toEqual([]);
+    });
+
+    it("should reject blank tags and ids", () => {
+        expect(() => RegisterAgentInputSchema.parse({ id: "agent-1", capabilities: ["  "] })).toThrow();
+        expect(() => RegisterAgentInputSchema.parse({ id: "" })).toThrow();
+    });
+});
+
+describe("SubmitPlanInputSchema", () => {
+    it("should accept tasks without edges", () => {
+        expect(SubmitPlanInputSchema.parse({ tasks: [{ key: "a", title: "A" }] }).tasks).toHaveLength(1);
+    });
+
+    it("should reject empty plans, duplicate keys and self edges", () => {
+        expect(() => SubmitPlanInputSchema.parse({ tasks: [] })).toThrow();
+        expect(() => SubmitPlanInputSchema.parse({ tasks: [{ key: "a", title: "A" }, { key: "a", title: "B" }] })).toThrow("Duplicate task key: a");
+        expect(() => SubmitPlanInputSchema.parse({ tasks: [{ key: "a", title: "A" }], edges: [{ blocker: "a", blocked: "a" }] })).toThrow();
+    });
+});
+
+describe("TaskQuerySchema", () => {
+    it("should default sort, order and limit", () => {
+        expect(TaskQuerySchema.parse({})).toEqual({ sort: "priority", order: "asc", limit: 50 });
+    });
+
+    it("should normalise labels and reject bad values", () => {
+        expect(TaskQuerySchema.parse({ labels: [" Bug "] }).labels).toEqual(["bug"]);
+        expect(() => TaskQuerySchema.parse({ statuses: ["done"] })).toThrow();
+        expect(() => TaskQuerySchema.parse({ sort: "random" })).toThrow();
+        expect(() => TaskQuerySchema.parse({ limit: 0 })).toThrow();
+    });
+});
+
+describe("MissionExportSchema", () => {
+    const doc = (overrides: Record<string, unknown> = {}) => ({
+        format: "mission-control",
+        version: 1,
+        exported_at: "2024-01-01",
+        mission: { id: "m", title: "M", status: "active", created_at: "2024-01-01" },
+        tasks: [{ id: "a", title: "A", created_at: "2024-01-01", updated_at: "2024-01-01" }],
+        dependencies: [],
+        ...overrides
+    });
+
+    it("should fill in defaults for hand-written tasks", () => {
+        expect(MissionExportSchema.parse(doc()).tasks[0]).toMatchObject({ status: "pending", priority: 2, parent_id: null, labels: [] });
+    });
+
+    it("should reject duplicate ids, dangling references and self-edges", () => {
+        const task = { id: "a", title: "A", created_at: "", updated_at: "" };
+        expect(() => MissionExportSchema.parse(doc({ tasks: [task, task] }))).toThrow(/Duplicate task id/);
+        expect(() => MissionExportSchema.parse(doc({ tasks: [{ ...task, parent_id: "b" }] }))).toThrow(/Unknown task id/);
+        expect(() => MissionExportSchema.parse(doc({ dependencies: [{ blocker_id: "a", blocked_id: "a" }] }))).toThrow(/cannot block itself/);
+        expect(() => MissionExportSchema.parse(doc({ format: "other" }))).toThrow();
+    });
+});
+
+describe("EditTaskInputSchema", () => {
+    it("should accept a partial edit", () => {
+        expect(EditTaskInputSchema.parse({ title: "New" })).toEqual({ title: "New" });
+    });
+
+    it("should reject an empty edit", () => {
+        expect(() => EditTaskInputSchema.parse({})).toThrow();
+    });
+});
+
+describe("DeleteTaskInputSchema", () => {
+    it("should default cascade to false", () => {
+        expect(DeleteTaskInputSchema.parse({ task_id: "t-1" })).toEqual({ task_id: "t-1", cascade: false });
+    });
+});
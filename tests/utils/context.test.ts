@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach } from "bun:test";
-import { getContextMissionId, getContextMissionTitle } from "../../src/utils/context";
+import { getContextMissionId, getContextMissionTitle, getActiveMissionId, setActiveMissionId } from "../../src/utils/context";
 
 describe("getContextMissionId", () => {
     let originalCwd: () => string;
@@ -85,4 +85,30 @@ describe("getContextMissionTitle", () => {
         const title = getContextMissionTitle();
         expect(title).toBe("unknown-project");
     });
-});
\ No newline at end of file
+});
+
+describe("getActiveMissionId", () => {
+    afterEach(() => {
+        setActiveMissionId(undefined, null);
+        setActiveMissionId("session-1", null);
+    });
+
+    it("should default to the directory's mission", () => {
+        expect(getActiveMissionId("session-1")).toBe(getContextMissionId());
+    });
+
+    it("should keep overrides per session", () => {
+        setActiveMissionId("session-1", "mission-a");
+        setActiveMissionId(undefined, "mission-b");
+
+        expect(getActiveMissionId("session-1")).toBe("mission-a");
+        expect(getActiveMissionId()).toBe("mission-b");
+        expect(getActiveMissionId("session-2")).toBe(getContextMissionId());
+    });
+
+    it("should revert to the directory's mission when cleared", () => {
+        setActiveMissionId("session-1", "mission-a");
+        setActiveMissionId("session-1", null);
+        expect(getActiveMissionId("session-1")).toBe(getContextMissionId());
+    });
+});